@@ -0,0 +1,77 @@
+// ==============================================================================
+// 🧭 Logger Adapter
+// ------------------------------------------------------------------------------
+// Adapter that implements ILogger interface using Logger
+// Code written against ILogger gets namespaces, plugins, outputs and history
+// ==============================================================================
+
+import { Logger } from "../core/logger.ts";
+import type { ILogger } from "../interfaces/ILogger.ts";
+
+/**
+ * Adapter that wraps a Logger to implement ILogger interface
+ *
+ * - Requests become entries with category "request" and method, path, status,
+ *   durationMs and size metadata; 4xx log as warnings and 5xx as errors
+ * - Sections become info entries with category "section"
+ *
+ * USAGE:
+ * ```typescript
+ * const logger: ILogger = new LoggerAdapter(Logger.get("app"));
+ * logger.logInfo("Server starting", { port: 8000 });
+ * ```
+ */
+export class LoggerAdapter implements ILogger {
+  /**
+   * @param logger - Logger to emit through, defaults to the shared root logger
+   */
+  constructor(readonly logger: Logger = Logger.get()) {}
+
+  logInfo(message: string, metadata?: Record<string, unknown>): void {
+    this.logger.info(message, metadata);
+  }
+
+  logSuccess(message: string, metadata?: Record<string, unknown>): void {
+    this.logger.success(message, metadata);
+  }
+
+  logWarning(message: string, metadata?: Record<string, unknown>): void {
+    this.logger.warning(message, metadata);
+  }
+
+  logError(message: string, metadata?: Record<string, unknown>): void {
+    this.logger.error(message, metadata);
+  }
+
+  logDebug(message: string, metadata?: Record<string, unknown>): void {
+    this.logger.debug(message, metadata);
+  }
+
+  logCritical(message: string, metadata?: Record<string, unknown>): void {
+    this.logger.critical(message, metadata);
+  }
+
+  logRequest(
+    method: string,
+    path: string,
+    status: number,
+    duration: number,
+    size?: number,
+  ): void {
+    const level = status >= 500 ? "error" : status >= 400 ? "warning" : "info";
+    this.logger.log(
+      level,
+      `${method} ${path} ${status}`,
+      { method, path, status, durationMs: duration, size },
+      { category: "request" },
+    );
+  }
+
+  logSection(
+    title: string,
+    _colorName?: string,
+    _style?: "standard" | "heavy" | "double" | "simple",
+  ): void {
+    this.logger.log("info", title, undefined, { category: "section" });
+  }
+}
@@ -0,0 +1,218 @@
+// ==============================================================================
+// 🧪 Test Logger
+// ------------------------------------------------------------------------------
+// ILogger that records entries in memory instead of printing them
+// Entries still pass through a real Logger (levels, redaction, plugins), so
+// tests see exactly what an output would receive
+// ==============================================================================
+
+import { defaultConfig, LogEntry, LogLevel, StylerConfig } from "../core/config.ts";
+import { Logger } from "../core/logger.ts";
+import { levels } from "../core/levels.ts";
+import { NO_LIMITS, safeStringify } from "../core/serializer.ts";
+import { LoggerAdapter } from "./LoggerAdapter.ts";
+
+/**
+ * Entry fields to match; omitted fields match anything
+ */
+export interface LogExpectation {
+  level?: LogLevel;
+  messageMatch?: string | RegExp; // Substring or pattern of the message
+  metadata?: Record<string, unknown>; // Subset of the metadata; RegExp values match strings
+  namespace?: string;
+  category?: string;
+}
+
+/**
+ * Thrown by the TestLogger expect* helpers
+ */
+export class LogAssertionError extends Error {
+  constructor(message: string, readonly entries: LogEntry[]) {
+    super(message);
+    this.name = "LogAssertionError";
+  }
+}
+
+/**
+ * In-memory ILogger for tests
+ *
+ * USAGE:
+ * ```typescript
+ * const logger = new TestLogger();
+ * await registerUser(logger, { email: "a@example.com" });
+ * logger.expectLogged({ level: "success", messageMatch: /registered/, metadata: { plan: "free" } });
+ * logger.expectNoErrors();
+ * ```
+ *
+ * Code that needs the full Logger API can be given `logger.logger`; entries from its
+ * child loggers are recorded too.
+ */
+export class TestLogger extends LoggerAdapter {
+  private recorded: LogEntry[];
+
+  constructor(config: Partial<StylerConfig> = {}) {
+    const recorded: LogEntry[] = [];
+    super(
+      new Logger({
+        ...defaultConfig,
+        colorMode: "disabled",
+        emojiMode: "disabled",
+        plugins: [],
+        ...config,
+        // Record through an output so entries from child loggers are captured as well
+        outputs: [
+          {
+            type: "custom",
+            formatter: () => "",
+            write: (_line, entry) => void recorded.push(entry),
+          },
+          ...config.outputs ?? [],
+        ],
+      }),
+    );
+    this.recorded = recorded;
+  }
+
+  /**
+   * Recorded entries, oldest first
+   */
+  get entries(): LogEntry[] {
+    return [...this.recorded];
+  }
+
+  clear(): void {
+    this.recorded.length = 0;
+  }
+
+  find(expectation: LogExpectation): LogEntry[] {
+    return this.recorded.filter((entry) => matchesExpectation(entry, expectation));
+  }
+
+  /**
+   * Assert that an entry matches, or exactly `times` entries; returns the first match
+   */
+  expectLogged(expectation: LogExpectation, times?: number): LogEntry {
+    const matches = this.find(expectation);
+    if (matches.length === 0 || (times !== undefined && matches.length !== times)) {
+      const expected = times === undefined ? "an entry" : `${times} entries`;
+      throw new LogAssertionError(
+        `Expected ${expected} matching ${describeExpectation(expectation)}, ` +
+          `found ${matches.length}.\n${this.describeEntries()}`,
+        this.entries,
+      );
+    }
+    return matches[0];
+  }
+
+  expectNotLogged(expectation: LogExpectation): void {
+    const matches = this.find(expectation);
+    if (matches.length > 0) {
+      throw new LogAssertionError(
+        `Expected no entry matching ${describeExpectation(expectation)}, ` +
+          `found ${matches.length}:\n${describeEntries(matches)}`,
+        this.entries,
+      );
+    }
+  }
+
+  /**
+   * Assert that nothing was logged at error severity or above
+   */
+  expectNoErrors(): void {
+    const errors = this.recorded.filter((entry) => levels.isEnabled(entry.level, "error"));
+    if (errors.length > 0) {
+      throw new LogAssertionError(
+        `Expected no errors, found ${errors.length}:\n${describeEntries(errors)}`,
+        this.entries,
+      );
+    }
+  }
+
+  /**
+   * Stable JSON of the recorded entries for snapshot tests; timestamps, trace ids and the
+   * entry error's stack are left out
+   */
+  snapshot(): string {
+    return safeStringify(this.recorded.map(snapshotEntry), 2, NO_LIMITS);
+  }
+
+  private describeEntries(): string {
+    return this.recorded.length > 0
+      ? `Recorded entries:\n${describeEntries(this.recorded)}`
+      : "Nothing was logged.";
+  }
+}
+
+// ================================================================================
+// Matching
+// ================================================================================
+
+function matchesExpectation(entry: LogEntry, expectation: LogExpectation): boolean {
+  const { level, messageMatch, metadata, namespace, category } = expectation;
+  if (level !== undefined && entry.level !== level) return false;
+  if (namespace !== undefined && entry.namespace !== namespace) return false;
+  if (category !== undefined && entry.category !== category) return false;
+  if (messageMatch !== undefined) {
+    const matched = typeof messageMatch === "string"
+      ? entry.message.includes(messageMatch)
+      : messageMatch.test(entry.message);
+    if (!matched) return false;
+  }
+  return metadata === undefined || matchesSubset(entry.metadata ?? {}, metadata);
+}
+
+/**
+ * Deep partial match: every expected key must match, extra actual keys are ignored
+ */
+function matchesSubset(actual: unknown, expected: unknown): boolean {
+  if (expected instanceof RegExp) {
+    return typeof actual === "string" ? expected.test(actual) : actual instanceof RegExp &&
+      actual.source === expected.source && actual.flags === expected.flags;
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length &&
+      expected.every((item, index) => matchesSubset(actual[index], item));
+  }
+  if (expected instanceof Date) {
+    return actual instanceof Date && actual.getTime() === expected.getTime();
+  }
+  if (typeof expected === "object" && expected !== null) {
+    if (typeof actual !== "object" || actual === null) return false;
+    return Object.entries(expected).every(([key, value]) =>
+      matchesSubset((actual as Record<string, unknown>)[key], value)
+    );
+  }
+  return Object.is(actual, expected);
+}
+
+// ================================================================================
+// Descriptions
+// ================================================================================
+
+function describeExpectation(expectation: LogExpectation): string {
+  const fields = Object.entries(expectation)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${value instanceof RegExp ? value : safeStringify(value)}`);
+  return `{ ${fields.join(", ")} }`;
+}
+
+function describeEntries(entries: LogEntry[]): string {
+  return entries.map((entry) => {
+    const namespace = entry.namespace ? ` [${entry.namespace}]` : "";
+    const metadata = entry.metadata ? ` ${safeStringify(entry.metadata)}` : "";
+    return `  ${entry.level}${namespace} ${entry.message}${metadata}`;
+  }).join("\n");
+}
+
+function snapshotEntry(entry: LogEntry): Record<string, unknown> {
+  return {
+    level: entry.level,
+    message: entry.message,
+    namespace: entry.namespace,
+    category: entry.category,
+    metadata: entry.metadata,
+    context: entry.context,
+    error: entry.error && { name: entry.error.name, message: entry.error.message },
+    span: entry.span?.name,
+  };
+}
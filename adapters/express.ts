@@ -2,6 +2,7 @@
 // adapters/express.ts
 // Note: This would need Node.js compatibility layer
 import { Logger } from "../core/logger.ts";
+import { continueTrace, formatTraceparent, TRACEPARENT_HEADER } from "../core/trace.ts";
 // Commented out - depends on removed "new" directory
 // import {
 //   type ContextSnapshotIncludeOptions,
@@ -11,6 +12,7 @@ import { Logger } from "../core/logger.ts";
 
 export interface ExpressLoggerOptions {
   logger?: Logger;
+  namespace?: string; // Shared logger used when no logger is given, defaults to "http"
   skipPaths?: string[];
   httpMetadata?: ContextSnapshotIncludeOptions;
 }
@@ -19,7 +21,7 @@ export interface ExpressLoggerOptions {
 export function expressLogger(
   options: ExpressLoggerOptions = {},
 ): (req: any, res: any, next: any) => void {
-  const logger = options.logger || new Logger();
+  const logger = options.logger ?? Logger.get(options.namespace ?? "http");
   const skipPaths = options.skipPaths || [];
   const metadataInclude = options.httpMetadata;
 
@@ -49,45 +51,53 @@ export function expressLogger(
       httpContext.state.userAgent = userAgent;
     }
 
-    // Log incoming request
-    logger.info(`→ ${req.method} ${path}`, {
-      requestId,
-      ip: req.ip,
-      userAgent,
-    });
+    // Continue the caller's trace (or start one) and report the request's span downstream
+    const trace = continueTrace(req.get?.(TRACEPARENT_HEADER) ?? req.headers?.[TRACEPARENT_HEADER]);
+    res.setHeader?.(TRACEPARENT_HEADER, formatTraceparent(trace));
 
-    res.on("finish", () => {
-      const duration = performance.now() - start;
-      const status = res.statusCode ?? 200;
+    // Bind requestId and trace context to every entry logged while handling the request
+    const logContext = { requestId, ...trace };
 
-      httpContext.response.status = status;
-      httpContext.response.statusText = res.statusMessage;
-      httpContext.response.headers = headersFromOutgoing(res.getHeaders());
-      httpContext.response.committed = true;
-
-      const httpSnapshot = snapshotContext(httpContext, {
-        requestId,
-        durationMs: duration,
-        include: metadataInclude,
+    // Log incoming request
+    logger.runWithContext(logContext, () => {
+      logger.info(`→ ${req.method} ${path}`, {
+        ip: req.ip,
+        userAgent,
       });
-
-      const metadata = {
-        requestId,
-        duration: `${duration.toFixed(2)}ms`,
-        status,
-        http: httpSnapshot,
-      };
-
-      if (status >= 200 && status < 300) {
-        logger.success(`← ${status} ${req.method} ${path}`, metadata);
-      } else if (status >= 400) {
-        logger.warning(`← ${status} ${req.method} ${path}`, metadata);
-      } else {
-        logger.info(`← ${status} ${req.method} ${path}`, metadata);
-      }
     });
 
-    next();
+    res.on("finish", () =>
+      logger.runWithContext(logContext, () => {
+        const duration = performance.now() - start;
+        const status = res.statusCode ?? 200;
+
+        httpContext.response.status = status;
+        httpContext.response.statusText = res.statusMessage;
+        httpContext.response.headers = headersFromOutgoing(res.getHeaders());
+        httpContext.response.committed = true;
+
+        const httpSnapshot = snapshotContext(httpContext, {
+          requestId,
+          durationMs: duration,
+          include: metadataInclude,
+        });
+
+        const metadata = {
+          duration: `${duration.toFixed(2)}ms`,
+          status,
+          http: httpSnapshot,
+        };
+
+        if (status >= 200 && status < 300) {
+          logger.success(`← ${status} ${req.method} ${path}`, metadata);
+        } else if (status >= 400) {
+          logger.warning(`← ${status} ${req.method} ${path}`, metadata);
+        } else {
+          logger.info(`← ${status} ${req.method} ${path}`, metadata);
+        }
+      }));
+
+    logger.runWithContext(logContext, () => next());
   };
 }
 
@@ -2,6 +2,7 @@
 // @ts-nocheck - Disabled: depends on removed "new" directory
 import type { Context as HonoContext, Next } from "jsr:@hono/hono@^4";
 import { Logger } from "../core/logger.ts";
+import { continueTrace, formatTraceparent, TRACEPARENT_HEADER } from "../core/trace.ts";
 // Commented out - depends on removed "new" directory
 // import {
 //   type ContextSnapshotIncludeOptions,
@@ -11,6 +12,7 @@ import { Logger } from "../core/logger.ts";
 
 export interface HonoLoggerOptions {
   logger?: Logger;
+  namespace?: string; // Shared logger used when no logger is given, defaults to "http"
   skipPaths?: string[];
   httpMetadata?: ContextSnapshotIncludeOptions;
 }
@@ -18,7 +20,7 @@ export interface HonoLoggerOptions {
 export function honoLogger(
   options: HonoLoggerOptions = {},
 ): (c: HonoContext, next: Next) => Promise<void> {
-  const logger = options.logger || new Logger();
+  const logger = options.logger ?? Logger.get(options.namespace ?? "http");
   const skipPaths = options.skipPaths || [];
   const metadataInclude = options.httpMetadata;
 
@@ -40,63 +42,66 @@ export function honoLogger(
       return;
     }
 
-    // Log incoming request
-    logger.info(`→ ${c.req.method} ${path}`, {
-      requestId,
-      userAgent: c.req.header("user-agent"),
-    });
+    // Continue the caller's trace (or start one) and report the request's span downstream
+    const trace = continueTrace(c.req.header(TRACEPARENT_HEADER));
+    c.header(TRACEPARENT_HEADER, formatTraceparent(trace));
 
-    try {
-      await next();
+    // Bind requestId and trace context to every entry logged while handling the request
+    await logger.runWithContext({ requestId, ...trace }, async () => {
+      // Log incoming request
+      logger.info(`→ ${c.req.method} ${path}`, {
+        userAgent: c.req.header("user-agent"),
+      });
 
-      const duration = performance.now() - start;
-      const status = c.res.status;
+      try {
+        await next();
 
-      httpContext.response.status = status;
-      httpContext.response.statusText = c.res.statusText;
-      httpContext.response.headers = new Headers(c.res.headers);
-      httpContext.response.committed = true;
-      const httpSnapshot = snapshotContext(httpContext, {
-        requestId,
-        durationMs: duration,
-        include: metadataInclude,
-      });
+        const duration = performance.now() - start;
+        const status = c.res.status;
 
-      const metadata = {
-        requestId,
-        duration: `${duration.toFixed(2)}ms`,
-        status,
-        http: httpSnapshot,
-      };
+        httpContext.response.status = status;
+        httpContext.response.statusText = c.res.statusText;
+        httpContext.response.headers = new Headers(c.res.headers);
+        httpContext.response.committed = true;
+        const httpSnapshot = snapshotContext(httpContext, {
+          requestId,
+          durationMs: duration,
+          include: metadataInclude,
+        });
 
-      if (status >= 200 && status < 300) {
-        logger.success(`← ${status} ${c.req.method} ${path}`, metadata);
-      } else if (status >= 400) {
-        logger.warning(`← ${status} ${c.req.method} ${path}`, metadata);
-      } else {
-        logger.info(`← ${status} ${c.req.method} ${path}`, metadata);
-      }
-    } catch (error) {
-      const duration = performance.now() - start;
+        const metadata = {
+          duration: `${duration.toFixed(2)}ms`,
+          status,
+          http: httpSnapshot,
+        };
 
-      httpContext.response.status = c.res.status ?? 500;
-      httpContext.response.statusText = c.res.statusText;
-      httpContext.response.headers = new Headers(c.res.headers);
-      httpContext.response.committed = true;
-      const httpSnapshot = snapshotContext(httpContext, {
-        requestId,
-        durationMs: duration,
-        include: metadataInclude,
-      });
+        if (status >= 200 && status < 300) {
+          logger.success(`← ${status} ${c.req.method} ${path}`, metadata);
+        } else if (status >= 400) {
+          logger.warning(`← ${status} ${c.req.method} ${path}`, metadata);
+        } else {
+          logger.info(`← ${status} ${c.req.method} ${path}`, metadata);
+        }
+      } catch (error) {
+        const duration = performance.now() - start;
 
-      logger.error(`← Error ${c.req.method} ${path}`, {
-        requestId,
-        duration: `${duration.toFixed(2)}ms`,
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-        http: httpSnapshot,
-      });
-      throw error;
-    }
+        httpContext.response.status = c.res.status ?? 500;
+        httpContext.response.statusText = c.res.statusText;
+        httpContext.response.headers = new Headers(c.res.headers);
+        httpContext.response.committed = true;
+        const httpSnapshot = snapshotContext(httpContext, {
+          requestId,
+          durationMs: duration,
+          include: metadataInclude,
+        });
+
+        logger.error(`← Error ${c.req.method} ${path}`, {
+          duration: `${duration.toFixed(2)}ms`,
+          error, // Serialized with its stack and cause
+          http: httpSnapshot,
+        });
+        throw error;
+      }
+    });
   };
 }
@@ -5,3 +5,6 @@
 // ==============================================================================
 
 export { ConsoleStylerLogger, defaultLogger } from "./ConsoleStylerLogger.ts";
+export { LoggerAdapter } from "./LoggerAdapter.ts";
+export { LogAssertionError, TestLogger } from "./TestLogger.ts";
+export type { LogExpectation } from "./TestLogger.ts";
@@ -2,6 +2,7 @@
 // @ts-nocheck - Disabled: depends on removed "new" directory
 import type { Context as OakContext, Next } from "jsr:@oak/oak@^17";
 import { Logger } from "../core/logger.ts";
+import { continueTrace, formatTraceparent, TRACEPARENT_HEADER } from "../core/trace.ts";
 // Commented out - depends on removed "new" directory
 // import {
 //   type ContextSnapshotIncludeOptions,
@@ -11,6 +12,7 @@ import { Logger } from "../core/logger.ts";
 
 export interface OakLoggerOptions {
   logger?: Logger;
+  namespace?: string; // Shared logger used when no logger is given, defaults to "http"
   skipPaths?: string[];
   logBody?: boolean;
   httpMetadata?: ContextSnapshotIncludeOptions;
@@ -19,7 +21,7 @@ export interface OakLoggerOptions {
 export function oakLogger(
   options: OakLoggerOptions = {},
 ): (ctx: OakContext, next: Next) => Promise<void> {
-  const logger = options.logger || new Logger();
+  const logger = options.logger ?? Logger.get(options.namespace ?? "http");
   const skipPaths = options.skipPaths || [];
   const logBody = options.logBody || false;
   const metadataInclude = options.httpMetadata;
@@ -51,62 +53,65 @@ export function oakLogger(
       return;
     }
 
-    // Log incoming request
-    logger.info(`→ ${ctx.request.method} ${path}`, {
-      requestId,
-      ip: ctx.request.ip,
-      userAgent: ctx.request.headers.get("user-agent"),
-    });
+    // Continue the caller's trace (or start one) and report the request's span downstream
+    const trace = continueTrace(ctx.request.headers.get(TRACEPARENT_HEADER));
+    ctx.response.headers.set(TRACEPARENT_HEADER, formatTraceparent(trace));
 
-    try {
-      await next();
+    // Bind requestId and trace context to every entry logged while handling the request
+    await logger.runWithContext({ requestId, ...trace }, async () => {
+      // Log incoming request
+      logger.info(`→ ${ctx.request.method} ${path}`, {
+        ip: ctx.request.ip,
+        userAgent: ctx.request.headers.get("user-agent"),
+      });
 
-      const duration = performance.now() - start;
-      const status = ctx.response.status;
+      try {
+        await next();
 
-      httpContext.response.status = status;
-      httpContext.response.headers = new Headers(ctx.response.headers);
-      httpContext.response.committed = true;
-      const httpSnapshot = snapshotContext(httpContext, {
-        requestId,
-        durationMs: duration,
-        include: metadataInclude,
-      });
+        const duration = performance.now() - start;
+        const status = ctx.response.status;
 
-      const metadata = {
-        requestId,
-        duration: `${duration.toFixed(2)}ms`,
-        status,
-        http: httpSnapshot,
-      };
+        httpContext.response.status = status;
+        httpContext.response.headers = new Headers(ctx.response.headers);
+        httpContext.response.committed = true;
+        const httpSnapshot = snapshotContext(httpContext, {
+          requestId,
+          durationMs: duration,
+          include: metadataInclude,
+        });
 
-      if (status >= 200 && status < 300) {
-        logger.success(`← ${status} ${ctx.request.method} ${path}`, metadata);
-      } else if (status >= 400) {
-        logger.warning(`← ${status} ${ctx.request.method} ${path}`, metadata);
-      } else {
-        logger.info(`← ${status} ${ctx.request.method} ${path}`, metadata);
-      }
-    } catch (error) {
-      const duration = performance.now() - start;
+        const metadata = {
+          duration: `${duration.toFixed(2)}ms`,
+          status,
+          http: httpSnapshot,
+        };
 
-      httpContext.response.status = ctx.response.status ?? 500;
-      httpContext.response.headers = new Headers(ctx.response.headers);
-      httpContext.response.committed = true;
-      const httpSnapshot = snapshotContext(httpContext, {
-        requestId,
-        durationMs: duration,
-        include: metadataInclude,
-      });
+        if (status >= 200 && status < 300) {
+          logger.success(`← ${status} ${ctx.request.method} ${path}`, metadata);
+        } else if (status >= 400) {
+          logger.warning(`← ${status} ${ctx.request.method} ${path}`, metadata);
+        } else {
+          logger.info(`← ${status} ${ctx.request.method} ${path}`, metadata);
+        }
+      } catch (error) {
+        const duration = performance.now() - start;
 
-      logger.error(`← Error ${ctx.request.method} ${path}`, {
-        requestId,
-        duration: `${duration.toFixed(2)}ms`,
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-        http: httpSnapshot,
-      });
-      throw error;
-    }
+        httpContext.response.status = ctx.response.status ?? 500;
+        httpContext.response.headers = new Headers(ctx.response.headers);
+        httpContext.response.committed = true;
+        const httpSnapshot = snapshotContext(httpContext, {
+          requestId,
+          durationMs: duration,
+          include: metadataInclude,
+        });
+
+        logger.error(`← Error ${ctx.request.method} ${path}`, {
+          duration: `${duration.toFixed(2)}ms`,
+          error, // Serialized with its stack and cause
+          http: httpSnapshot,
+        });
+        throw error;
+      }
+    });
   };
 }
@@ -111,7 +111,7 @@ export class Spinner {
     "⠏",
   ];
   private currentFrame = 0;
-  private intervalId?: number;
+  private intervalId?: ReturnType<typeof setInterval>;
   private message: string;
 
   constructor(private options: SpinnerOptions = {}) {
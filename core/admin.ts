@@ -0,0 +1,316 @@
+// core/admin.ts
+// ================================================================================
+// 🛠️ Admin Server - Inspect and adjust a running logger over local HTTP
+// Off unless Logger.serveAdmin() is called. Listens on 127.0.0.1 or a Unix
+// socket, and every request needs `Authorization: Bearer <token>`.
+//
+//   GET    /loggers              Logger tree with effective levels
+//   GET    /levels               Active runtime level changes
+//   PUT    /levels               { namespace, level, revertAfterMs? }
+//   DELETE /levels?namespace=    Revert a change now
+//   GET    /history              ?q=<query>&limit=&offset=&order=
+//   POST   /export               { query? } → { path, count }
+// ================================================================================
+
+import { timingSafeEqual } from "node:crypto";
+import type { LogLevel } from "./config.ts";
+import type { Logger } from "./logger.ts";
+import { levels } from "./levels.ts";
+import { QuerySyntaxError } from "./query.ts";
+import { NO_LIMITS, safeStringify, toSerializable } from "./serializer.ts";
+
+export interface AdminServerOptions {
+  token: string; // Required bearer token
+  hostname?: string; // Defaults to 127.0.0.1
+  port?: number; // Defaults to 0 (any free port; the address is logged)
+  socketPath?: string; // Listen on a Unix domain socket instead of TCP
+  revertAfterMs?: number; // Level changes revert after this, defaults to 15 minutes
+  exportDir?: string; // Directory for /export files, defaults to "./logs"
+}
+
+/**
+ * A logger namespace in the /loggers tree; instances counts loggers sharing the namespace
+ */
+export interface LoggerNode {
+  namespace: string;
+  level: LogLevel | "off";
+  instances: number;
+  children: LoggerNode[];
+}
+
+interface LevelChange {
+  namespace: string;
+  level: LogLevel | "off";
+  changedAt: string;
+  revertAt?: string;
+  revert: () => void;
+}
+
+const DEFAULT_REVERT_MS = 15 * 60 * 1000;
+const DEFAULT_HISTORY_LIMIT = 100;
+const MAX_HISTORY_LIMIT = 1000;
+
+/**
+ * Error with an HTTP status, turned into a JSON error response
+ */
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export class AdminServer {
+  private server?: Deno.HttpServer;
+  private changes = new Map<string, LevelChange>();
+  private token: Uint8Array;
+
+  constructor(private logger: Logger, private options: AdminServerOptions) {
+    if (!options.token) {
+      throw new Error("Admin server requires a token");
+    }
+    this.token = new TextEncoder().encode(options.token);
+  }
+
+  start(): this {
+    const handler = (request: Request) => this.handle(request);
+    const onListen = (address: Deno.NetAddr | Deno.UnixAddr) => {
+      const location = "path" in address
+        ? address.path
+        : `http://${address.hostname}:${address.port}`;
+      this.logger.info("admin server listening", { address: location });
+    };
+
+    this.server = this.options.socketPath
+      ? Deno.serve({ transport: "unix", path: this.options.socketPath, onListen }, handler)
+      : Deno.serve({
+        hostname: this.options.hostname ?? "127.0.0.1",
+        port: this.options.port ?? 0,
+        onListen,
+      }, handler);
+
+    return this;
+  }
+
+  get address(): Deno.Addr | undefined {
+    return this.server?.addr;
+  }
+
+  /**
+   * Stop listening; runtime level changes stay until their revert timers fire
+   */
+  async close(): Promise<void> {
+    await this.server?.shutdown();
+    this.server = undefined;
+  }
+
+  // ================================================================================
+  // Routing
+  // ================================================================================
+
+  private async handle(request: Request): Promise<Response> {
+    try {
+      if (!this.authorized(request)) throw new HttpError(401, "Missing or invalid token");
+
+      const url = new URL(request.url);
+      const route = `${request.method} ${url.pathname.replace(/\/+$/, "") || "/"}`;
+
+      switch (route) {
+        case "GET /loggers":
+          return json(this.tree());
+        case "GET /levels":
+          return json(this.activeChanges());
+        case "PUT /levels":
+        case "POST /levels":
+          return json(this.setLevel(await body(request)));
+        case "DELETE /levels":
+          return json(this.revertLevel(url.searchParams.get("namespace")));
+        case "GET /history":
+          return json(this.history(url.searchParams));
+        case "POST /export":
+          return json(await this.export(await body(request)));
+      }
+      throw new HttpError(404, `No route for ${route}`);
+    } catch (error) {
+      if (error instanceof HttpError) return json({ error: error.message }, error.status);
+      if (error instanceof QuerySyntaxError) return json({ error: error.message }, 400);
+      console.error(
+        "[Logger] Admin request failed:",
+        error instanceof Error ? error.message : String(error),
+      );
+      return json({ error: "Internal error" }, 500);
+    }
+  }
+
+  private authorized(request: Request): boolean {
+    const header = request.headers.get("authorization") ?? "";
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) return false;
+
+    const given = new TextEncoder().encode(match[1]);
+    return given.length === this.token.length && timingSafeEqual(given, this.token);
+  }
+
+  // ================================================================================
+  // Handlers
+  // ================================================================================
+
+  private tree(): LoggerNode[] {
+    return group([this.logger]);
+  }
+
+  private activeChanges(): Array<Omit<LevelChange, "revert">> {
+    const now = new Date().toISOString();
+    return [...this.changes.values()]
+      .filter((change) => !change.revertAt || change.revertAt > now)
+      .map(({ revert: _revert, ...change }) => change);
+  }
+
+  private setLevel(input: Record<string, unknown>): Omit<LevelChange, "revert"> {
+    const { namespace, level } = input;
+    if (typeof namespace !== "string" || namespace === "") {
+      throw new HttpError(400, '"namespace" must be a non-empty string or pattern');
+    }
+    // The pattern becomes one namespace filter rule, so it must not contain rule syntax
+    if (/[\s,=]/.test(namespace) || namespace.startsWith("-")) {
+      throw new HttpError(
+        400,
+        `${JSON.stringify(namespace)} is not a namespace pattern ` +
+          '(no whitespace, "," or "=", and no leading "-")',
+      );
+    }
+    if (typeof level !== "string" || (level !== "off" && !levels.has(level))) {
+      throw new HttpError(400, `${JSON.stringify(level)} is not a level or "off"`);
+    }
+
+    // 0 keeps the change until it is reverted explicitly
+    const revertAfterMs = input.revertAfterMs ?? this.options.revertAfterMs ?? DEFAULT_REVERT_MS;
+    if (typeof revertAfterMs !== "number" || revertAfterMs < 0) {
+      throw new HttpError(400, '"revertAfterMs" must be a non-negative number');
+    }
+
+    // Replacing an active change restores the original level first, so revert undoes both
+    this.changes.get(namespace)?.revert();
+    const revert = this.logger.setNamespaceLevel(namespace, level, revertAfterMs || undefined);
+
+    const now = Date.now();
+    const change: LevelChange = {
+      namespace,
+      level,
+      changedAt: new Date(now).toISOString(),
+      revertAt: revertAfterMs ? new Date(now + revertAfterMs).toISOString() : undefined,
+      revert,
+    };
+    this.changes.set(namespace, change);
+
+    if (revertAfterMs) {
+      // The logger reverts the rule; forget the change at the same time
+      const timer = setTimeout(() => {
+        if (this.changes.get(namespace) === change) this.changes.delete(namespace);
+      }, revertAfterMs);
+      Deno.unrefTimer(timer);
+    }
+
+    this.logger.info("log level changed", {
+      namespace,
+      level,
+      revertAt: change.revertAt,
+      via: "admin",
+    });
+
+    const { revert: _revert, ...result } = change;
+    return result;
+  }
+
+  private revertLevel(namespace: string | null): { namespace: string; reverted: boolean } {
+    if (!namespace) throw new HttpError(400, 'Query parameter "namespace" is required');
+
+    const change = this.changes.get(namespace);
+    if (!change) return { namespace, reverted: false };
+
+    change.revert();
+    this.changes.delete(namespace);
+    this.logger.info("log level reverted", { namespace, via: "admin" });
+    return { namespace, reverted: true };
+  }
+
+  private history(params: URLSearchParams): unknown {
+    const limit = Math.min(
+      integerParam(params, "limit") ?? DEFAULT_HISTORY_LIMIT,
+      MAX_HISTORY_LIMIT,
+    );
+    const order = params.get("order") === "asc" ? "asc" : "desc";
+
+    const page = this.logger.queryHistory({
+      where: params.get("q") ?? undefined,
+      offset: integerParam(params, "offset"),
+      limit,
+      order,
+    });
+    return { ...page, entries: page.entries.map((entry) => toSerializable(entry)) };
+  }
+
+  private async export(input: Record<string, unknown>): Promise<{ path: string; count: number }> {
+    const query = input.query;
+    if (query !== undefined && typeof query !== "string") {
+      throw new HttpError(400, '"query" must be a query string');
+    }
+
+    // The client never chooses the path
+    const directory = this.options.exportDir ?? "./logs";
+    await Deno.mkdir(directory, { recursive: true });
+    const path = `${directory}/logs-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+
+    const count = this.logger.countHistory(query ?? {});
+    await this.logger.exportLogs(path, query);
+    this.logger.info("logs exported", { path, count, via: "admin" });
+
+    return { path, count };
+  }
+}
+
+/**
+ * Merge loggers by namespace so per-request children appear once with an instance count
+ */
+function group(loggers: Logger[]): LoggerNode[] {
+  const byNamespace = new Map<string, Logger[]>();
+  for (const logger of loggers) {
+    const namespace = logger.getNamespace();
+    byNamespace.set(namespace, [...(byNamespace.get(namespace) ?? []), logger]);
+  }
+
+  return [...byNamespace].map(([namespace, members]) => ({
+    namespace,
+    level: members[0].getLevel(),
+    instances: members.length,
+    children: group(members.flatMap((member) => member.getChildren())),
+  }));
+}
+
+function integerParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new HttpError(400, `"${name}" must be a non-negative integer`);
+  }
+  return number;
+}
+
+async function body(request: Request): Promise<Record<string, unknown>> {
+  const text = await request.text();
+  if (!text) return {};
+  try {
+    const data = JSON.parse(text);
+    if (typeof data === "object" && data !== null && !Array.isArray(data)) return data;
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, "Request body must be a JSON object");
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(safeStringify(data, 2, NO_LIMITS), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
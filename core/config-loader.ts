@@ -0,0 +1,527 @@
+// core/config-loader.ts
+// ================================================================================
+// 📋 Config Loader - Configuration from JSON/JSONC files and environment variables
+// Loaded values are validated rather than merged blindly; every problem is
+// reported with the path of the offending value, e.g.
+//   outputs[2].minLevel: 'warn' is not a level
+// Themes and plugins are referenced by name and resolved through their registries.
+// ================================================================================
+
+import type { LogOutput, StylerConfig } from "./config.ts";
+import type { FloodControlOptions } from "./flood-control.ts";
+import { levels } from "./levels.ts";
+import { NamespaceFilter } from "./namespaces.ts";
+import { formatNames, hasFormat } from "./formats.ts";
+import { compileLineTemplate } from "./line-template.ts";
+import { BUILTIN_DETECTORS } from "./redaction.ts";
+import { getTheme, themes } from "../themes/mod.ts";
+import { createPlugin, hasPlugin, pluginNames } from "../plugins/registry.ts";
+
+/**
+ * Thrown when configuration is invalid; issues lists every problem found
+ */
+export class ConfigValidationError extends Error {
+  constructor(readonly issues: string[], source?: string) {
+    super(
+      `Invalid logger configuration${source ? ` in ${source}` : ""}:\n  ${issues.join("\n  ")}`,
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+export interface ValidateOptions {
+  source?: string; // File name or "environment", used in the error message
+  label?: (key: string) => string; // Display name for a top-level key, e.g. its env var
+}
+
+type Check = (value: unknown, path: string, issues: string[]) => unknown;
+
+const MODES = ["auto", "enabled", "disabled"];
+const OUTPUT_TYPES = ["console", "stderr", "file", "remote"];
+const REDACTION_MODES = ["mask", "hash", "remove"];
+
+// Marker for values that failed validation
+const INVALID = Symbol("invalid");
+
+// ================================================================================
+// Field Checks
+// ================================================================================
+
+const oneOf = (allowed: string[], kind: string): Check => (value, path, issues) => {
+  if (typeof value === "string" && allowed.includes(value)) return value;
+  return fail(
+    issues,
+    path,
+    `${show(value)} is not a valid ${kind} (expected ${allowed.join(", ")})`,
+  );
+};
+
+const string: Check = (value, path, issues) =>
+  typeof value === "string" ? value : fail(issues, path, `${show(value)} is not a string`);
+
+const boolean: Check = (value, path, issues) =>
+  typeof value === "boolean" ? value : fail(issues, path, `${show(value)} is not a boolean`);
+
+const integer = (min: number): Check => (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    return fail(issues, path, `${show(value)} is not an integer`);
+  }
+  return value >= min ? value : fail(issues, path, `${value} must be at least ${min}`);
+};
+
+const positive: Check = (value, path, issues) => {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    return fail(issues, path, `${show(value)} is not a number`);
+  }
+  return value > 0 ? value : fail(issues, path, `${value} must be greater than 0`);
+};
+
+const fraction: Check = (value, path, issues) => {
+  if (typeof value !== "number" || value < 0 || value > 1) {
+    return fail(issues, path, `${show(value)} is not a number between 0 and 1`);
+  }
+  return value;
+};
+
+const level: Check = (value, path, issues) => {
+  if (typeof value === "string" && levels.has(value)) return value;
+  const known = levels.list().map((definition) => definition.name).join(", ");
+  return fail(issues, path, `${show(value)} is not a level (expected one of ${known})`);
+};
+
+const FLOOD_COMBINATION =
+  "rateLimit and dedupe cannot be combined (dedupe suppresses every repeat)";
+
+const floodControl: Check = (value, path, issues) => {
+  const checked = object({
+    sampling: record(level, fraction),
+    rateLimit: object({ limit: integer(1), intervalMs: positive }),
+    dedupe: object({ windowMs: positive }),
+  })(value, path, issues);
+  if (checked === INVALID) return checked;
+  const { rateLimit, dedupe } = checked as FloodControlOptions;
+  return rateLimit && dedupe ? fail(issues, path, FLOOD_COMBINATION) : checked;
+};
+
+const namespaceFilter: Check = (value, path, issues) => {
+  if (typeof value !== "string") return fail(issues, path, `${show(value)} is not a string`);
+  try {
+    NamespaceFilter.parse(value);
+    return value;
+  } catch (error) {
+    return fail(issues, path, error instanceof Error ? error.message : String(error));
+  }
+};
+
+const theme: Check = (value, path, issues) => {
+  const resolved = typeof value === "string" ? getTheme(value) : undefined;
+  if (resolved) return resolved;
+  const known = Object.keys(themes).join(", ");
+  return fail(issues, path, `${show(value)} is not a theme (expected one of ${known})`);
+};
+
+/**
+ * Object with a fixed set of optional keys; unknown keys are reported
+ */
+const object = (fields: Record<string, Check>): Check => (value, path, issues) => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return fail(issues, path, `${show(value)} is not an object`);
+  }
+
+  const result: Record<string, unknown> = {};
+  let valid = true;
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = path ? `${path}.${key}` : key;
+    const check = fields[key];
+    if (!check) {
+      fail(issues, itemPath, `unknown option (expected one of ${Object.keys(fields).join(", ")})`);
+      valid = false;
+      continue;
+    }
+    const checked = check(item, itemPath, issues);
+    if (checked === INVALID) valid = false;
+    else result[key] = checked;
+  }
+  return valid ? result : INVALID;
+};
+
+const array = (check: Check): Check => (value, path, issues) => {
+  if (!Array.isArray(value)) return fail(issues, path, `${show(value)} is not an array`);
+
+  const items = value.map((item, index) => check(item, `${path}[${index}]`, issues));
+  return items.includes(INVALID) ? INVALID : items;
+};
+
+const record = (keyCheck: Check, valueCheck: Check): Check => (value, path, issues) => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return fail(issues, path, `${show(value)} is not an object`);
+  }
+
+  let valid = true;
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = `${path}.${key}`;
+    if (keyCheck(key, itemPath, issues) === INVALID) valid = false;
+    else if (valueCheck(item, itemPath, issues) === INVALID) valid = false;
+  }
+  return valid ? value : INVALID;
+};
+
+const plainObject: Check = (value, path, issues) =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+    ? value
+    : fail(issues, path, `${show(value)} is not an object`);
+
+const lineFormat: Check = (value, path, issues) => {
+  if (typeof value === "string" && hasFormat(value)) return value;
+  const known = formatNames().join(", ");
+  return fail(issues, path, `${show(value)} is not a registered format (registered: ${known})`);
+};
+
+const timeZone: Check = (value, path, issues) => {
+  if (typeof value !== "string") return fail(issues, path, `${show(value)} is not a string`);
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return value;
+  } catch {
+    return fail(issues, path, `${show(value)} is not a known time zone (e.g. UTC, Europe/Berlin)`);
+  }
+};
+
+const locale: Check = (value, path, issues) => {
+  if (typeof value !== "string") return fail(issues, path, `${show(value)} is not a string`);
+  try {
+    new Intl.DateTimeFormat(value);
+    return value;
+  } catch {
+    return fail(issues, path, `${show(value)} is not a valid locale (e.g. en-US, de-DE)`);
+  }
+};
+
+const lineTemplate: Check = (value, path, issues) => {
+  if (typeof value !== "string") return fail(issues, path, `${show(value)} is not a string`);
+  try {
+    compileLineTemplate(value);
+    return value;
+  } catch (error) {
+    return fail(issues, path, error instanceof Error ? error.message : String(error));
+  }
+};
+
+const output: Check = (value, path, issues) => {
+  const checked = object({
+    type: oneOf(OUTPUT_TYPES, "output type"),
+    minLevel: level,
+    path: string,
+    url: string,
+    apiKey: string,
+    format: lineFormat,
+  })(value, path, issues);
+  if (checked === INVALID) return INVALID;
+
+  const result = checked as Partial<LogOutput>;
+  if (result.type === undefined) return fail(issues, `${path}.type`, "is required");
+  if (result.type === "file" && !result.path) {
+    return fail(issues, `${path}.path`, 'is required for "file" outputs');
+  }
+  if (result.type === "remote" && !result.url) {
+    return fail(issues, `${path}.url`, 'is required for "remote" outputs');
+  }
+  return result;
+};
+
+/**
+ * A registered plugin name, or { name, options }
+ */
+const plugin: Check = (value, path, issues) => {
+  const spec = typeof value === "string"
+    ? { name: value }
+    : object({ name: string, options: plainObject })(value, path, issues);
+  if (spec === INVALID) return INVALID;
+
+  const { name, options } = spec as { name?: string; options?: Record<string, unknown> };
+  if (name === undefined) return fail(issues, `${path}.name`, "is required");
+  if (!hasPlugin(name)) {
+    const known = pluginNames().join(", ");
+    return fail(issues, path, `${show(name)} is not a registered plugin (registered: ${known})`);
+  }
+
+  try {
+    return createPlugin(name, options);
+  } catch (error) {
+    return fail(issues, path, error instanceof Error ? error.message : String(error));
+  }
+};
+
+const FIELDS: Record<string, Check> = {
+  colorMode: oneOf(MODES, "color mode"),
+  emojiMode: oneOf(MODES, "emoji mode"),
+  unicodeMode: oneOf(MODES, "unicode mode"),
+  namespace: string,
+  timestampFormat: string,
+  dateFormat: string,
+  timeZone,
+  locale,
+  indentSize: integer(0),
+  maxLineWidth: integer(1),
+  lineTemplate,
+  compact: boolean,
+  logLevel: level,
+  namespaceFilter,
+  enableHistory: boolean,
+  maxHistorySize: integer(0),
+  floodControl,
+  redaction: object({
+    paths: array(string),
+    detectors: array(oneOf(Object.keys(BUILTIN_DETECTORS), "detector")),
+    mode: oneOf(REDACTION_MODES, "redaction mode"),
+    mask: string,
+    salt: string,
+  }),
+  spanSummary: object({ limit: integer(1) }),
+  theme,
+  outputs: array(output),
+  plugins: array(plugin),
+};
+
+// How each option is written in an environment variable
+const ENV_KINDS: Record<string, "string" | "integer" | "boolean" | "json" | "list"> = {
+  colorMode: "string",
+  emojiMode: "string",
+  unicodeMode: "string",
+  namespace: "string",
+  timestampFormat: "string",
+  dateFormat: "string",
+  timeZone: "string",
+  locale: "string",
+  indentSize: "integer",
+  maxLineWidth: "integer",
+  lineTemplate: "string",
+  compact: "boolean",
+  logLevel: "string",
+  namespaceFilter: "string",
+  enableHistory: "boolean",
+  maxHistorySize: "integer",
+  floodControl: "json",
+  redaction: "json",
+  spanSummary: "json",
+  theme: "string",
+  outputs: "list",
+  plugins: "list",
+};
+
+// ================================================================================
+// Loading
+// ================================================================================
+
+/**
+ * Validated overrides from PREFIX_LOG_LEVEL, PREFIX_COLOR_MODE, PREFIX_THEME, PREFIX_OUTPUTS, ...
+ * (each option name in upper snake case). Objects are JSON; outputs and plugins are JSON
+ * arrays or comma-separated lists such as "console,file:/var/log/app.log".
+ */
+export function configFromEnv(
+  prefix = "GENESIS",
+  env: Record<string, string> = Deno.env.toObject(),
+): Partial<StylerConfig> {
+  const issues: string[] = [];
+  const names = new Map<string, string>();
+  const raw: Record<string, unknown> = {};
+
+  for (const [key, kind] of Object.entries(ENV_KINDS)) {
+    const name = envName(prefix, key);
+    const value = env[name];
+    names.set(key, name);
+    if (value === undefined) continue;
+
+    try {
+      raw[key] = fromEnvValue(key, kind, value);
+    } catch (error) {
+      issues.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return check(raw, { source: "environment", label: (key) => names.get(key) ?? key }, issues);
+}
+
+/**
+ * Validated overrides from a JSON or JSONC (comments and trailing commas) file
+ */
+export async function configFromFile(path: string): Promise<Partial<StylerConfig>> {
+  const text = await Deno.readTextFile(path);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripJsonComments(text));
+  } catch (error) {
+    throw new ConfigValidationError(
+      [`not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+      path,
+    );
+  }
+
+  return validateConfig(raw, { source: path });
+}
+
+/**
+ * Blank out comments and trailing commas, keeping offsets so JSON errors point at the source
+ */
+export function stripJsonComments(text: string): string {
+  const blanked = mapOutsideStrings(text, (i) => {
+    if (text.startsWith("//", i)) {
+      const end = text.indexOf("\n", i);
+      return end === -1 ? text.length : end;
+    }
+    if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      return end === -1 ? text.length : end + 2;
+    }
+    return i;
+  });
+
+  return mapOutsideStrings(blanked, (i) => {
+    TRAILING_COMMA.lastIndex = i + 1;
+    return blanked[i] === "," && TRAILING_COMMA.test(blanked) ? i + 1 : i;
+  });
+}
+
+const TRAILING_COMMA = /\s*[}\]]/y;
+
+/**
+ * Copy text, replacing the span [i, blank(i)) with spaces wherever blank extends it.
+ * String literals are copied untouched; newlines are kept so line numbers still match.
+ */
+function mapOutsideStrings(text: string, blank: (i: number) => number): string {
+  let result = "";
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] === '"') {
+      const start = i++;
+      while (i < text.length && text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+      result += text.slice(start, ++i);
+      continue;
+    }
+
+    const end = blank(i);
+    if (end > i) {
+      result += text.slice(i, end).replace(/[^\n]/g, " ");
+      i = end;
+    } else {
+      result += text[i++];
+    }
+  }
+
+  return result;
+}
+
+// ================================================================================
+// Validation
+// ================================================================================
+
+/**
+ * Validate plain configuration data (parsed JSON or env vars) into config overrides.
+ * Theme names resolve to themes and plugin names to new plugin instances.
+ * Throws ConfigValidationError listing every problem.
+ */
+export function validateConfig(raw: unknown, options: ValidateOptions = {}): Partial<StylerConfig> {
+  return check(raw, options, []);
+}
+
+/**
+ * Check configuration passed to a Logger in code, which skips validateConfig, for values
+ * it cannot log with: unknown levels, and flood control combining rateLimit and dedupe.
+ * Throws ConfigValidationError with the same messages.
+ */
+export function validateLoggerConfig(config: Partial<StylerConfig>): void {
+  const issues: string[] = [];
+  if (config.logLevel !== undefined) level(config.logLevel, "logLevel", issues);
+  config.outputs?.forEach((output, index) => {
+    if (output.minLevel !== undefined) level(output.minLevel, `outputs[${index}].minLevel`, issues);
+  });
+  if (config.floodControl?.rateLimit && config.floodControl.dedupe) {
+    fail(issues, "floodControl", FLOOD_COMBINATION);
+  }
+  if (issues.length > 0) throw new ConfigValidationError(issues);
+}
+
+function check(raw: unknown, options: ValidateOptions, issues: string[]): Partial<StylerConfig> {
+  const label = options.label ?? ((key: string) => key);
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigValidationError([`${show(raw)} is not an object`], options.source);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const field = FIELDS[key];
+    if (!field) {
+      issues.push(`${label(key)}: unknown option${suggest(key)}`);
+      continue;
+    }
+    const checked = field(value, label(key), issues);
+    if (checked !== INVALID) result[key] = checked;
+  }
+
+  if (issues.length > 0) {
+    // Plugins created for a rejected configuration are never initialized
+    throw new ConfigValidationError(issues, options.source);
+  }
+  return result as Partial<StylerConfig>;
+}
+
+function envName(prefix: string, key: string): string {
+  const snake = key.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase();
+  return prefix ? `${prefix.replace(/_$/, "")}_${snake}` : snake;
+}
+
+function fromEnvValue(key: string, kind: string, value: string): unknown {
+  switch (kind) {
+    case "integer":
+      return /^-?\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : value;
+    case "boolean":
+      if (/^(true|1|yes|on)$/i.test(value.trim())) return true;
+      if (/^(false|0|no|off)$/i.test(value.trim())) return false;
+      return value;
+    case "json":
+      return parseJson(value);
+    case "list":
+      if (value.trim().startsWith("[")) return parseJson(value);
+      return value.split(",").map((item) => item.trim()).filter(Boolean).map((item) => {
+        if (key !== "outputs") return item;
+        // type or type:target, where the target is a file path or remote URL
+        const separator = item.indexOf(":");
+        if (separator === -1) return { type: item };
+        const type = item.slice(0, separator);
+        const target = item.slice(separator + 1);
+        return type === "remote" ? { type, url: target } : { type, path: target };
+      });
+  }
+  return value;
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new Error(`not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function fail(issues: string[], path: string, message: string): typeof INVALID {
+  issues.push(`${path}: ${message}`);
+  return INVALID;
+}
+
+function show(value: unknown): string {
+  if (typeof value === "string") return `'${value}'`;
+  if (value === undefined) return "undefined";
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * " (did you mean 'logLevel'?)" for near-miss option names
+ */
+function suggest(key: string): string {
+  const lower = key.toLowerCase().replace(/[-_]/g, "");
+  const match = Object.keys(FIELDS).find((name) => name.toLowerCase() === lower);
+  return match ? ` (did you mean '${match}'?)` : "";
+}
@@ -0,0 +1,121 @@
+// core/config-watcher.ts
+// ================================================================================
+// 🔄 Config Watcher - Reload a config file into a running Logger
+// Watches the file with Deno.watchFs (and optionally SIGHUP), validates it with
+// configFromFile and applies it through Logger.reloadConfig, which propagates
+// to every child logger. Invalid files are reported and the running
+// configuration is kept.
+// ================================================================================
+
+import { dirname, resolve } from "node:path";
+import type { Logger } from "./logger.ts";
+import { configFromFile, ConfigValidationError } from "./config-loader.ts";
+
+export interface ConfigWatchOptions {
+  watch?: boolean; // Reload when the file changes (Deno.watchFs), defaults to true
+  sighup?: boolean; // Reload on SIGHUP, defaults to false
+  debounceMs?: number; // Quiet period after the last file event, defaults to 100
+}
+
+/**
+ * Previous and new value of a reloaded option
+ */
+export interface ConfigChange {
+  from: unknown;
+  to: unknown;
+}
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+export class ConfigWatcher {
+  readonly path: string;
+  private fsWatcher?: Deno.FsWatcher;
+  private debounce?: ReturnType<typeof setTimeout>;
+  private reloading: Promise<unknown> = Promise.resolve();
+  private closed = false;
+  private onSignal = () => void this.reload();
+
+  constructor(private logger: Logger, path: string, private options: ConfigWatchOptions = {}) {
+    this.path = resolve(path);
+  }
+
+  start(): this {
+    if (this.options.watch ?? true) {
+      // Watch the directory: editors often replace the file rather than write to it
+      this.fsWatcher = Deno.watchFs(dirname(this.path), { recursive: false });
+      this.consume(this.fsWatcher);
+    }
+
+    if (this.options.sighup) {
+      try {
+        Deno.addSignalListener("SIGHUP", this.onSignal);
+      } catch (error) {
+        console.error(
+          "[Logger] SIGHUP reload unavailable:",
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Reload the file now; resolves to the applied changes, or undefined when it was invalid
+   */
+  reload(): Promise<Record<string, ConfigChange> | undefined> {
+    const result = this.reloading.then(() => this.apply());
+    this.reloading = result;
+    return result;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.debounce);
+    this.fsWatcher?.close();
+    if (this.options.sighup) {
+      try {
+        Deno.removeSignalListener("SIGHUP", this.onSignal);
+      } catch {
+        // Listener was never added
+      }
+    }
+  }
+
+  private async consume(watcher: Deno.FsWatcher): Promise<void> {
+    try {
+      for await (const event of watcher) {
+        if (event.kind === "access" || !event.paths.some((path) => path === this.path)) continue;
+        clearTimeout(this.debounce);
+        this.debounce = setTimeout(
+          () => void this.reload(),
+          this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS,
+        );
+      }
+    } catch (error) {
+      if (!this.closed) {
+        console.error(
+          "[Logger] Config watcher stopped:",
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+  }
+
+  private async apply(): Promise<Record<string, ConfigChange> | undefined> {
+    if (this.closed) return undefined;
+
+    try {
+      return this.logger.reloadConfig(await configFromFile(this.path), this.path);
+    } catch (error) {
+      this.logger.error("config reload failed", {
+        source: this.path,
+        issues: error instanceof ConfigValidationError
+          ? error.issues
+          : [error instanceof Error ? error.message : String(error)],
+      });
+      return undefined;
+    }
+  }
+}
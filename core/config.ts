@@ -1,28 +1,47 @@
 // core/config.ts
 import { defaultTheme } from "../themes/default.ts";
+import type { RemoteLoggerConfig } from "./remote-logger.ts";
+import type { Logger } from "./logger.ts";
+import type { BuiltinLogLevel } from "./levels.ts";
+import type { FloodControlOptions } from "./flood-control.ts";
+import type { SerializedError } from "./errors.ts";
+import type { RedactionOptions } from "./redaction.ts";
+import type { SpanInfo, SpanSummaryOptions } from "./spans.ts";
+import { configFromEnv, configFromFile } from "./config-loader.ts";
 
-export type LogLevel =
-  | "debug"
-  | "info"
-  | "success"
-  | "warning"
-  | "error"
-  | "critical";
+// Built-in levels plus any registered through the level registry
+export type LogLevel = BuiltinLogLevel | (string & Record<never, never>);
 
 export interface LogEntry {
   timestamp: Date;
+  hrTime?: number; // Epoch milliseconds with sub-millisecond precision, for Formatter.timestamp
   level: LogLevel;
   message: string;
   metadata?: Record<string, any>;
   category?: string;
   requestId?: string;
   namespace?: string;
+  context?: Record<string, unknown>; // Bindings from Logger.runWithContext
+  error?: SerializedError; // Error passed as the message or metadata
+  span?: SpanInfo; // Span the entry was logged in, from Logger.span() or Logger.time()
+  traceId?: string; // W3C trace context (32 hex characters)
+  spanId?: string; // Active span, or the request span bound from traceparent (16 hex)
+  traceFlags?: number;
+  style?: string; // Registered entry style that renders it on the console (see entry-styles.ts)
 }
 
 export interface LogOutput {
-  type: "console" | "file" | "remote" | "custom";
+  type: "console" | "stderr" | "file" | "remote" | "custom";
   minLevel?: LogLevel;
   formatter?: (entry: LogEntry) => string;
+  format?: string; // Registered line format (json, text, logfmt, ecs, gelf, cef); formatter wins
+
+  // Destination settings (used by the matching output type)
+  path?: string; // file: path to append to
+  url?: string; // remote: endpoint URL
+  apiKey?: string; // remote: bearer token
+  remote?: RemoteLoggerConfig; // remote: full RemoteLogger configuration
+  write?: (line: string, entry: LogEntry) => void | Promise<void>; // custom: destination callback
 }
 
 export interface Theme {
@@ -66,15 +85,35 @@ export interface Theme {
   };
 }
 
+export type PluginMethod = (...args: never[]) => unknown;
+
 export interface Plugin {
   name: string;
   version: string;
+
+  // Ordering: dependencies run first, then higher priority (default 0)
+  priority?: number;
+  dependencies?: string[];
+
+  // Lifecycle hooks
   onInit?(config: StylerConfig): void | Promise<void>;
   onLog?(entry: LogEntry): void | Promise<void>;
   onShutdown?(): void | Promise<void>;
-  extendMethods?(): Record<string, Function>;
+
+  // Pipeline hooks, run synchronously before history, onLog and outputs
+  filter?(entry: LogEntry): boolean; // Return false to drop the entry
+  transform?(entry: LogEntry): LogEntry | null | void; // Return null to drop the entry
+
+  // Extend functionality
+  extendMethods?(logger: Logger): Record<string, PluginMethod>;
 }
 
+/**
+ * Helper methods a plugin attaches to the Logger through extendMethods
+ */
+export type PluginMethods<P> = P extends { extendMethods(logger: Logger): infer M } ? M
+  : Record<never, never>;
+
 export interface StylerConfig {
   // Output
   colorMode: "auto" | "enabled" | "disabled";
@@ -83,15 +122,23 @@ export interface StylerConfig {
   namespace?: string;
 
   // Formatting
-  timestampFormat: string;
+  timestampFormat: string; // Formatter.timestamp format, e.g. "HH:mm:ss.SSS", "ISO" or "delta"
   dateFormat: string;
+  timeZone?: string; // "UTC" or an IANA zone for timestamps; local time when omitted
+  locale?: string; // Month and weekday names in timestamps
   indentSize: number;
   maxLineWidth: number;
+  lineTemplate?: string; // Console line layout, see line-template.ts
+  compact?: boolean; // One console line per entry, e.g. for `docker logs`
 
   // Behavior
   logLevel: LogLevel;
+  namespaceFilter?: string; // e.g. "app:db:*=debug,-app:noisy,*=info"; defaults to $GENESIS_LOG
   enableHistory: boolean;
   maxHistorySize: number;
+  floodControl?: FloodControlOptions; // Sampling, rate limits and duplicate collapsing
+  redaction?: RedactionOptions; // Secret and PII redaction, applied before plugins and outputs
+  spanSummary?: SpanSummaryOptions; // Print the slowest spans on shutdown
 
   // Output targets
   outputs: LogOutput[];
@@ -122,6 +169,30 @@ export const defaultConfig: StylerConfig = {
 
 export class ConfigBuilder {
   private config: Partial<StylerConfig> = {};
+
+  /**
+   * Builder preloaded from env vars such as GENESIS_LOG_LEVEL, GENESIS_THEME and GENESIS_OUTPUTS;
+   * throws ConfigValidationError for invalid values
+   */
+  static fromEnv(prefix = "GENESIS"): ConfigBuilder {
+    return new ConfigBuilder().merge(configFromEnv(prefix));
+  }
+
+  /**
+   * Builder preloaded from a JSON or JSONC file; throws ConfigValidationError for invalid values
+   */
+  static async fromFile(path: string): Promise<ConfigBuilder> {
+    return new ConfigBuilder().merge(await configFromFile(path));
+  }
+
+  /**
+   * Apply overrides on top of the options set so far
+   */
+  merge(config: Partial<StylerConfig>): this {
+    this.config = { ...this.config, ...config };
+    return this;
+  }
+
   namespace(namespace: string): this {
     this.config.namespace = namespace;
     return this;
@@ -147,11 +218,36 @@ export class ConfigBuilder {
     return this;
   }
 
+  timeZone(timeZone: string): this {
+    this.config.timeZone = timeZone;
+    return this;
+  }
+
+  locale(locale: string): this {
+    this.config.locale = locale;
+    return this;
+  }
+
+  lineTemplate(template: string): this {
+    this.config.lineTemplate = template;
+    return this;
+  }
+
+  compact(enable = true): this {
+    this.config.compact = enable;
+    return this;
+  }
+
   logLevel(level: LogLevel): this {
     this.config.logLevel = level;
     return this;
   }
 
+  namespaceFilter(spec: string): this {
+    this.config.namespaceFilter = spec;
+    return this;
+  }
+
   enableHistory(enable: boolean): this {
     this.config.enableHistory = enable;
     return this;
@@ -162,6 +258,21 @@ export class ConfigBuilder {
     return this;
   }
 
+  floodControl(options: FloodControlOptions): this {
+    this.config.floodControl = options;
+    return this;
+  }
+
+  redaction(options: RedactionOptions): this {
+    this.config.redaction = options;
+    return this;
+  }
+
+  spanSummary(options: SpanSummaryOptions = {}): this {
+    this.config.spanSummary = options;
+    return this;
+  }
+
   theme(theme: Theme): this {
     this.config.theme = theme;
     return this;
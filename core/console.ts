@@ -5,6 +5,8 @@
 // Extended with advanced features for enterprise-grade applications
 //
 // UPDATED: Now integrates enhanced color system with 256-color and RGB support
+// UPDATED: Log methods emit through a backing Logger, reaching its outputs,
+// plugins and history while keeping their specialized console layouts
 // ================================================================================
 
 import {
@@ -28,6 +30,10 @@ import {
   supportsColor,
   supportsTrueColor,
 } from "./colors.ts";
+import type { LogEntry, LogLevel } from "./config.ts";
+import { Logger } from "./logger.ts";
+import { type EntryStyleContext, registerEntryStyle } from "./entry-styles.ts";
+import { NO_LIMITS, safeStringify } from "./serializer.ts";
 
 // ================================================================================
 // TYPE DEFINITIONS
@@ -49,16 +55,19 @@ export interface DenoGenesisConfig {
   };
 }
 
-export interface LogEntry {
-  timestamp: Date;
-  level: LogLevel;
-  message: string;
-  metadata?: Record<string, any>;
-  category?: string;
-  requestId?: string;
-}
+// Log methods emit Logger entries, so ConsoleStyler shares the Logger's entry and level types
+export type { LogEntry, LogLevel };
 
-export type LogLevel = "debug" | "info" | "success" | "warning" | "error" | "critical";
+/**
+ * Color of a styler:colored entry: hex, RGB, 256-color index, palette key, or a color name
+ * or ANSI code
+ */
+type ColorSpec =
+  | { hex: string }
+  | { rgb: [number, number, number] }
+  | { color256: number }
+  | { theme: "solarized" | "nord" | "dracula" | "monokai"; key: string }
+  | { name: string };
 
 export interface PerformanceMetrics {
   uptime: string;
@@ -130,10 +139,30 @@ export class ConsoleStyler {
   static supportsTrueColor = supportsTrueColor;
 
   // Internal state
-  private static logHistory: LogEntry[] = [];
-  private static maxLogHistory = 100;
+  private static backingLogger?: Logger;
   private static colorSupportLevel: ColorSupport = detectColorSupport();
 
+  // Console layouts for the entries the log methods emit
+  static {
+    registerEntryStyle("styler:message", (entry, context) => this.renderMessage(entry, context));
+    registerEntryStyle("styler:colored", (entry, context) => this.renderColored(entry, context));
+    registerEntryStyle("styler:gradient", (entry) => this.renderGradient(entry));
+    registerEntryStyle("styler:route", (entry) => this.renderRoute(entry));
+    registerEntryStyle("styler:request", (entry) => this.renderRequest(entry));
+    registerEntryStyle("styler:database", (entry, context) => this.renderDatabase(entry, context));
+    registerEntryStyle(
+      "styler:websocket",
+      (entry, context) => this.renderWebSocket(entry, context),
+    );
+    registerEntryStyle("styler:ai", (entry, context) => this.renderAI(entry, context));
+    registerEntryStyle("styler:feature", (entry, context) => this.renderFeature(entry, context));
+    registerEntryStyle("styler:build", (entry, context) => this.renderBuild(entry, context));
+    registerEntryStyle(
+      "styler:environment",
+      (entry, context) => this.renderEnvironment(entry, context),
+    );
+  }
+
   // ================================================================================
   // ENHANCED COLOR METHODS (NEW)
   // ================================================================================
@@ -143,15 +172,7 @@ export class ConsoleStyler {
    * @example ConsoleStyler.logBrand("Welcome!", "#FF6B35", { user: "Alice" })
    */
   static logBrand(message: string, brandHex: string, metadata?: Record<string, any>): void {
-    const color = hexToRgb(brandHex);
-    console.log(`${color}🎨 ${message}${colors.reset}`);
-    if (metadata && Object.keys(metadata).length > 0) {
-      console.log(
-        `   ${colors.dim}${
-          JSON.stringify(metadata, null, 2).replace(/\n/g, "\n   ")
-        }${colors.reset}`,
-      );
-    }
+    this.emitColored(message, "🎨", { hex: brandHex }, metadata);
   }
 
   /**
@@ -166,15 +187,7 @@ export class ConsoleStyler {
     icon = "●",
     metadata?: Record<string, any>,
   ): void {
-    const color = colors.rgb(r, g, b);
-    console.log(`${color}${icon} ${message}${colors.reset}`);
-    if (metadata && Object.keys(metadata).length > 0) {
-      console.log(
-        `   ${colors.dim}${
-          JSON.stringify(metadata, null, 2).replace(/\n/g, "\n   ")
-        }${colors.reset}`,
-      );
-    }
+    this.emitColored(message, icon, { rgb: [r, g, b] }, metadata);
   }
 
   /**
@@ -187,15 +200,7 @@ export class ConsoleStyler {
     icon = "●",
     metadata?: Record<string, any>,
   ): void {
-    const color = color256(colorNumber);
-    console.log(`${color}${icon} ${message}${colors.reset}`);
-    if (metadata && Object.keys(metadata).length > 0) {
-      console.log(
-        `   ${colors.dim}${
-          JSON.stringify(metadata, null, 2).replace(/\n/g, "\n   ")
-        }${colors.reset}`,
-      );
-    }
+    this.emitColored(message, icon, { color256: colorNumber }, metadata);
   }
 
   /**
@@ -208,13 +213,16 @@ export class ConsoleStyler {
     endRGB: [number, number, number],
     steps: number,
   ): void {
-    console.log(`${colors.bright}${message}${colors.reset}`);
-    const gradient = createGradient(startRGB, endRGB, steps);
-    let line = "";
-    for (const color of gradient) {
-      line += `${color}█${colors.reset}`;
-    }
-    console.log(line);
+    createGradient(startRGB, endRGB, steps); // Invalid gradients throw here, not when rendered
+    this.emit("info", message, "gradient", {
+      gradient: { from: startRGB, to: endRGB, steps },
+    });
+  }
+
+  private static renderGradient(entry: LogEntry): string {
+    const { from, to, steps } = entry.metadata?.gradient;
+    const bar = createGradient(from, to, steps).map((color) => `${color}█${colors.reset}`);
+    return `${colors.bright}${entry.message}${colors.reset}\n${bar.join("")}`;
   }
 
   /**
@@ -228,16 +236,7 @@ export class ConsoleStyler {
     icon = "●",
     metadata?: Record<string, any>,
   ): void {
-    const themeColors = palettes[theme];
-    const color = (themeColors as any)[colorKey] || colors.reset;
-    console.log(`${color}${icon} ${message}${colors.reset}`);
-    if (metadata && Object.keys(metadata).length > 0) {
-      console.log(
-        `   ${colors.dim}${
-          JSON.stringify(metadata, null, 2).replace(/\n/g, "\n   ")
-        }${colors.reset}`,
-      );
-    }
+    this.emitColored(message, icon, { theme, key: colorKey }, metadata);
   }
 
   /**
@@ -268,6 +267,42 @@ export class ConsoleStyler {
     console.log("");
   }
 
+  // ================================================================================
+  // BACKING LOGGER
+  // ================================================================================
+
+  /**
+   * Logger the log methods emit through; defaults to the shared root logger, Logger.get()
+   */
+  static getLogger(): Logger {
+    return this.backingLogger ?? Logger.get();
+  }
+
+  /**
+   * Emit through another logger, e.g. one with its own theme, outputs or plugins.
+   * Called without a logger, goes back to the shared root logger.
+   */
+  static useLogger(logger?: Logger): void {
+    this.backingLogger = logger;
+  }
+
+  /**
+   * Log through the backing logger; console outputs render the entry with a styler: style
+   */
+  private static emit(
+    level: LogLevel,
+    message: string,
+    style: string,
+    metadata?: Record<string, any>,
+    category?: string,
+  ): void {
+    this.getLogger().log(level, message, metadata, { category, style: `styler:${style}` });
+  }
+
+  private static icon(symbol: string, context: EntryStyleContext): string {
+    return context.emoji ? `${symbol} ` : "";
+  }
+
   // ================================================================================
   // CORE LOGGING METHODS (ENHANCED)
   // ================================================================================
@@ -276,55 +311,42 @@ export class ConsoleStyler {
    * Enhanced success logging with brighter colors
    */
   static logSuccess(message: string, metadata?: Record<string, any>): void {
-    // Use enhanced 256-color green for better visibility
-    const icon = "✅";
-    const color = this.supports256Color() ? colors256.brightGreen : colors.success;
-    this._logEnhanced("success", message, icon, color, metadata);
+    this.emit("success", message, "message", metadata);
   }
 
   /**
    * Enhanced warning logging with 256-color support
    */
   static logWarning(message: string, metadata?: Record<string, any>): void {
-    const icon = "⚠️ ";
-    const color = this.supports256Color() ? colors256.brightOrange : colors.warning;
-    this._logEnhanced("warning", message, icon, color, metadata);
+    this.emit("warning", message, "message", metadata);
   }
 
   /**
    * Enhanced error logging with richer red
    */
   static logError(message: string, metadata?: Record<string, any>): void {
-    const icon = "❌";
-    const color = this.supports256Color() ? colors256.brightRed : colors.error;
-    this._logEnhanced("error", message, icon, color, metadata);
+    this.emit("error", message, "message", metadata);
   }
 
   /**
    * Enhanced info logging with cyan variants
    */
   static logInfo(message: string, metadata?: Record<string, any>): void {
-    const icon = "ℹ️ ";
-    const color = this.supports256Color() ? colors256.brightCyan : colors.info;
-    this._logEnhanced("info", message, icon, color, metadata);
+    this.emit("info", message, "message", metadata);
   }
 
   /**
    * Enhanced debug logging
    */
   static logDebug(message: string, metadata?: Record<string, any>): void {
-    const icon = "🔍";
-    const color = colors.dim;
-    this._logEnhanced("debug", message, icon, color, metadata);
+    this.emit("debug", message, "message", metadata);
   }
 
   /**
    * Enhanced critical logging with vivid red
    */
   static logCritical(message: string, metadata?: Record<string, any>): void {
-    const icon = "🚨";
-    const color = this.supports256Color() ? colors256.brightRed : colors.critical;
-    this._logEnhanced("critical", message, icon, color, metadata);
+    this.emit("critical", message, "message", metadata);
   }
 
   /**
@@ -336,53 +358,81 @@ export class ConsoleStyler {
     colorName: ColorName | string,
     metadata?: Record<string, any>,
   ): void {
-    const color = typeof colorName === "string" && colorName in colors
-      ? (colors as any)[colorName]
-      : colorName;
-
-    console.log(`${color}${icon} ${message}${colors.reset}`);
-    if (metadata && Object.keys(metadata).length > 0) {
-      console.log(
-        `   ${colors.dim}${
-          JSON.stringify(metadata, null, 2).replace(/\n/g, "\n   ")
-        }${colors.reset}`,
-      );
-    }
+    this.emitColored(message, icon, { name: colorName }, metadata);
   }
 
   /**
-   * Private enhanced logging helper with adaptive colors
+   * Log an info entry in a custom color; the color is kept readable in the entry's
+   * `styler` metadata and turned into an ANSI code when a console output renders it
    */
-  private static _logEnhanced(
-    level: LogLevel,
+  private static emitColored(
     message: string,
     icon: string,
-    color: string,
+    color: ColorSpec,
     metadata?: Record<string, any>,
   ): void {
-    // Console output with enhanced colors
-    let output = `${color}${icon} ${message}${colors.reset}`;
+    this.resolveColor(color); // Invalid colors throw here, not when rendered
+    this.emit("info", message, "colored", { ...metadata, styler: { icon, color } });
+  }
 
-    if (metadata && Object.keys(metadata).length > 0) {
+  private static renderColored(entry: LogEntry, context: EntryStyleContext): string {
+    const { styler, ...metadata } = entry.metadata ?? {};
+    const color = this.resolveColor(styler.color);
+    let output = `${color}${this.icon(styler.icon, context)}${entry.message}${colors.reset}`;
+
+    if (Object.keys(metadata).length > 0) {
       output += `\n   ${colors.dim}${
-        JSON.stringify(metadata, null, 2).replace(/\n/g, "\n   ")
+        safeStringify(metadata, 2).replace(/\n/g, "\n   ")
       }${colors.reset}`;
     }
 
-    console.log(output);
+    return output;
+  }
 
-    // Store in history
-    this.logHistory.push({
-      timestamp: new Date(),
-      level,
-      message,
-      metadata,
-    });
+  private static resolveColor(color: ColorSpec): string {
+    if ("hex" in color) return hexToRgb(color.hex);
+    if ("rgb" in color) return colors.rgb(...color.rgb);
+    if ("color256" in color) return color256(color.color256);
+    if ("theme" in color) {
+      return (palettes[color.theme] as Record<string, string>)[color.key] || colors.reset;
+    }
+    const named = (colors as Record<string, unknown>)[color.name];
+    return typeof named === "string" ? named : color.name;
+  }
+
+  /**
+   * Icon and adaptive color of each level
+   */
+  private static levelStyle(level: LogLevel): { icon: string; color: string } {
+    const rich = this.supports256Color();
+    switch (level) {
+      case "success":
+        // Enhanced 256-color green for better visibility
+        return { icon: "✅", color: rich ? colors256.brightGreen : colors.success };
+      case "warning":
+        return { icon: "⚠️ ", color: rich ? colors256.brightOrange : colors.warning };
+      case "error":
+        return { icon: "❌", color: rich ? colors256.brightRed : colors.error };
+      case "critical":
+        return { icon: "🚨", color: rich ? colors256.brightRed : colors.critical };
+      case "debug":
+        return { icon: "🔍", color: colors.dim };
+      default:
+        return { icon: "ℹ️ ", color: rich ? colors256.brightCyan : colors.info };
+    }
+  }
+
+  private static renderMessage(entry: LogEntry, context: EntryStyleContext): string {
+    const { icon, color } = this.levelStyle(entry.level);
+    let output = `${color}${this.icon(icon, context)}${entry.message}${colors.reset}`;
 
-    // Maintain history size
-    if (this.logHistory.length > this.maxLogHistory) {
-      this.logHistory.splice(0, this.logHistory.length - this.maxLogHistory);
+    if (entry.metadata && Object.keys(entry.metadata).length > 0) {
+      output += `\n   ${colors.dim}${
+        safeStringify(entry.metadata, 2).replace(/\n/g, "\n   ")
+      }${colors.reset}`;
     }
+
+    return output;
   }
 
   // ================================================================================
@@ -552,6 +602,16 @@ export class ConsoleStyler {
    * Enhanced route logging with method-specific styling and 256-color support
    */
   static logRoute(method: string, path: string, description: string, responseTime?: number): void {
+    this.emit("info", `${method} ${path} - ${description}`, "route", {
+      method,
+      path,
+      description,
+      responseTime,
+    }, "route");
+  }
+
+  private static renderRoute(entry: LogEntry): string {
+    const { method, path, description, responseTime } = entry.metadata ?? {};
     const methodColors: Record<string, string> = this.supports256Color()
       ? {
         "GET": colors256.brightGreen,
@@ -582,11 +642,9 @@ export class ConsoleStyler {
       timeStr = ` ${timeColor}(${responseTime.toFixed(2)}ms)${colors.reset}`;
     }
 
-    console.log(
-      `${methodColor}${methodPadded}${colors.reset} ` +
-        `${colors.bright}${pathPadded}${colors.reset} ` +
-        `${colors.dim}${description}${colors.reset}${timeStr}`,
-    );
+    return `${methodColor}${methodPadded}${colors.reset} ` +
+      `${colors.bright}${pathPadded}${colors.reset} ` +
+      `${colors.dim}${description}${colors.reset}${timeStr}`;
   }
 
   /**
@@ -777,18 +835,28 @@ export class ConsoleStyler {
     duration: number,
     size?: number,
   ): void {
+    const level = status >= 500 ? "error" : status >= 400 ? "warning" : "info";
+    this.emit(level, `${method} ${path} ${status}`, "request", {
+      method,
+      path,
+      status,
+      durationMs: duration,
+      size,
+    }, "request");
+  }
+
+  private static renderRequest(entry: LogEntry): string {
+    const { method, path, status, durationMs, size } = entry.metadata ?? {};
     const methodColor = this.getMethodColor(method);
     const statusColor = this.getStatusColor(status);
-    const durationColor = this.getResponseTimeColor(duration);
+    const durationColor = this.getResponseTimeColor(durationMs);
 
     const sizeInfo = size ? ` │ ${this.formatBytes(size)}` : "";
 
-    console.log(
-      `${methodColor}${method.padEnd(6)}${colors.reset} ` +
-        `${colors.bright}${path.padEnd(40)}${colors.reset} ` +
-        `${statusColor}${status}${colors.reset} ` +
-        `${durationColor}${duration.toFixed(2)}ms${colors.reset}${sizeInfo}`,
-    );
+    return `${methodColor}${method.padEnd(6)}${colors.reset} ` +
+      `${colors.bright}${path.padEnd(40)}${colors.reset} ` +
+      `${statusColor}${status}${colors.reset} ` +
+      `${durationColor}${durationMs.toFixed(2)}ms${colors.reset}${sizeInfo}`;
   }
 
   /**
@@ -852,16 +920,25 @@ export class ConsoleStyler {
     duration?: number,
     rowsAffected?: number,
   ): void {
-    const icon = "🗄️";
+    this.emit("info", table ? `${operation} on ${table}` : operation, "database", {
+      operation,
+      table,
+      durationMs: duration,
+      rowsAffected,
+    }, "database");
+  }
+
+  private static renderDatabase(entry: LogEntry, context: EntryStyleContext): string {
+    const { operation, table, durationMs, rowsAffected } = entry.metadata ?? {};
+    const icon = this.icon("🗄️", context);
     const color = this.supports256Color() ? colors256.purple : colors.magenta;
     const tableInfo = table ? ` on ${colors.bright}${table}${colors.reset}` : "";
-    const durationInfo = duration ? ` ${colors.dim}(${duration.toFixed(2)}ms)${colors.reset}` : "";
+    const durationInfo = durationMs
+      ? ` ${colors.dim}(${durationMs.toFixed(2)}ms)${colors.reset}`
+      : "";
     const rowsInfo = rowsAffected !== undefined ? ` - ${rowsAffected} rows affected` : "";
 
-    const durationColor = duration && duration > 100 ? colors.warning : colors.info;
-    console.log(
-      `${color}${icon} ${operation}${colors.reset}${tableInfo}${rowsInfo}${durationInfo}`,
-    );
+    return `${color}${icon}${operation}${colors.reset}${tableInfo}${rowsInfo}${durationInfo}`;
   }
 
   /**
@@ -872,7 +949,16 @@ export class ConsoleStyler {
     clientId?: string,
     data?: any,
   ): void {
-    const icons = {
+    this.emit(event === "error" ? "error" : "info", `WebSocket ${event}`, "websocket", {
+      event,
+      clientId,
+      data,
+    }, "websocket");
+  }
+
+  private static renderWebSocket(entry: LogEntry, context: EntryStyleContext): string {
+    const { event, clientId, data } = entry.metadata ?? {};
+    const icons: Record<string, string> = {
       connect: "🔌",
       disconnect: "🔌",
       message: "💬",
@@ -894,28 +980,36 @@ export class ConsoleStyler {
       };
 
     const clientInfo = clientId ? ` [${clientId.substring(0, 8)}...]` : "";
-    const dataInfo = data ? ` - ${JSON.stringify(data).substring(0, 50)}...` : "";
+    const dataInfo = data ? ` - ${safeStringify(data).substring(0, 50)}...` : "";
 
-    console.log(
-      `${eventColors[event]}${
-        icons[event]
-      } WebSocket ${event}${clientInfo}${dataInfo}${colors.reset}`,
-    );
+    return `${eventColors[event]}${
+      this.icon(icons[event], context)
+    }WebSocket ${event}${clientInfo}${dataInfo}${colors.reset}`;
   }
 
   /**
    * Enhanced AI operation logging
    */
   static logAI(operation: string, model?: string, tokens?: number, duration?: number): void {
-    const icon = "🤖";
+    this.emit("info", `AI ${operation}`, "ai", {
+      operation,
+      model,
+      tokens,
+      durationMs: duration,
+    }, "ai");
+  }
+
+  private static renderAI(entry: LogEntry, context: EntryStyleContext): string {
+    const { operation, model, tokens, durationMs } = entry.metadata ?? {};
+    const icon = this.icon("🤖", context);
     const color = this.supports256Color() ? colors256.brightPurple : colors.magenta;
     const modelInfo = model ? ` ${colors.dim}[${model}]${colors.reset}` : "";
     const tokenInfo = tokens ? ` - ${tokens} tokens` : "";
-    const durationInfo = duration ? ` ${colors.dim}(${duration.toFixed(2)}ms)${colors.reset}` : "";
+    const durationInfo = durationMs
+      ? ` ${colors.dim}(${durationMs.toFixed(2)}ms)${colors.reset}`
+      : "";
 
-    console.log(
-      `${color}${icon} AI ${operation}${modelInfo}${tokenInfo}${durationInfo}${colors.reset}`,
-    );
+    return `${color}${icon}AI ${operation}${modelInfo}${tokenInfo}${durationInfo}${colors.reset}`;
   }
 
   /**
@@ -926,7 +1020,16 @@ export class ConsoleStyler {
     description: string,
     status: "enabled" | "disabled" | "beta" | "experimental",
   ): void {
-    const statusConfig = this.supports256Color()
+    this.emit("info", `Feature: ${name} - ${description}`, "feature", {
+      name,
+      description,
+      status,
+    }, "feature");
+  }
+
+  private static renderFeature(entry: LogEntry, context: EntryStyleContext): string {
+    const { name, description, status } = entry.metadata ?? {};
+    const statusConfig: Record<string, { icon: string; color: string }> = this.supports256Color()
       ? {
         enabled: { icon: "✅", color: colors256.brightGreen },
         disabled: { icon: "❌", color: colors256.brightRed },
@@ -941,37 +1044,74 @@ export class ConsoleStyler {
       };
 
     const { icon, color } = statusConfig[status];
-    console.log(`${color}${icon} Feature: ${name} - ${description}${colors.reset}`);
+    return `${color}${this.icon(icon, context)}Feature: ${name} - ${description}${colors.reset}`;
   }
 
   /**
    * Enhanced build logging
    */
   static logBuild(stage: string, success: boolean, duration?: number, details?: string[]): void {
-    const icon = success ? "🏗️" : "💥";
+    this.emit(
+      success ? "success" : "error",
+      `Build ${stage}: ${success ? "SUCCESS" : "FAILED"}`,
+      "build",
+      { stage, success, durationMs: duration, details },
+      "build",
+    );
+  }
+
+  private static renderBuild(entry: LogEntry, context: EntryStyleContext): string {
+    const { stage, success, durationMs, details } = entry.metadata ?? {};
+    const icon = this.icon(success ? "🏗️" : "💥", context);
     const color = success
       ? (this.supports256Color() ? colors256.brightGreen : colors.success)
       : (this.supports256Color() ? colors256.brightRed : colors.error);
 
-    const durationInfo = duration ? ` ${colors.dim}(${duration.toFixed(2)}ms)${colors.reset}` : "";
+    const durationInfo = durationMs
+      ? ` ${colors.dim}(${durationMs.toFixed(2)}ms)${colors.reset}`
+      : "";
 
-    console.log(
-      `${color}${icon} Build ${stage}: ${
+    const lines = [
+      `${color}${icon}Build ${stage}: ${
         success ? "SUCCESS" : "FAILED"
       }${durationInfo}${colors.reset}`,
-    );
-
-    if (details && details.length > 0) {
-      details.forEach((detail) => {
-        console.log(`   ${colors.dim}• ${detail}${colors.reset}`);
-      });
+    ];
+    for (const detail of details ?? []) {
+      lines.push(`   ${colors.dim}• ${detail}${colors.reset}`);
     }
+    return lines.join("\n");
   }
 
   /**
    * Enhanced environment logging
    */
   static logEnvironment(environment: string, features?: string[]): void {
+    const config = this.environmentConfig(environment);
+    this.emit("info", config.message, "environment", {
+      environment,
+      features: features || config.features,
+    }, "environment");
+  }
+
+  private static renderEnvironment(entry: LogEntry, context: EntryStyleContext): string {
+    const { environment, features } = entry.metadata ?? {};
+    const config = this.environmentConfig(environment);
+
+    const lines = [
+      `${config.color}${this.icon(config.icon, context)}${config.message}${colors.reset}`,
+    ];
+    if (features?.length > 0) {
+      lines.push(`   ${colors.dim}Features: ${features.join(", ")}${colors.reset}`);
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Icon, color, description and default features of an environment
+   */
+  private static environmentConfig(
+    environment: string,
+  ): { icon: string; color: string; message: string; features: string[] } {
     const envConfigs = this.supports256Color()
       ? {
         development: {
@@ -1026,19 +1166,12 @@ export class ConsoleStyler {
         },
       };
 
-    const config = envConfigs[environment as keyof typeof envConfigs] || {
+    return envConfigs[environment as keyof typeof envConfigs] || {
       icon: "❓",
       color: colors.gray,
       message: `Unknown environment: ${environment}`,
       features: [],
     };
-
-    console.log(`${config.color}${config.icon} ${config.message}${colors.reset}`);
-
-    const envFeatures = features || config.features;
-    if (envFeatures.length > 0) {
-      console.log(`   ${colors.dim}Features: ${envFeatures.join(", ")}${colors.reset}`);
-    }
   }
 
   // ================================================================================
@@ -1088,7 +1221,7 @@ export class ConsoleStyler {
     const frames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
     const spinnerColor = this.supports256Color() ? colors256.brightCyan : colors.cyan;
     let currentFrame = 0;
-    let intervalId: number | null = null;
+    let intervalId: ReturnType<typeof setInterval> | null = null;
 
     return {
       start: () => {
@@ -1191,24 +1324,24 @@ export class ConsoleStyler {
   }
 
   /**
-   * Get log history
+   * Get the history of the backing logger's tree, including child and namespaced loggers
    */
   static getLogHistory(): LogEntry[] {
-    return [...this.logHistory];
+    return this.getLogger().getHistory();
   }
 
   /**
-   * Clear log history
+   * Clear the history of the backing logger's tree
    */
   static clearLogHistory(): void {
-    this.logHistory = [];
+    this.getLogger().clearHistory();
   }
 
   /**
-   * Export logs as JSON
+   * Export the history of the backing logger's tree as JSON
    */
   static exportLogs(): string {
-    return JSON.stringify(this.logHistory, null, 2);
+    return safeStringify(this.getLogger().getHistory(), 2, NO_LIMITS);
   }
 }
 
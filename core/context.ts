@@ -0,0 +1,37 @@
+// core/context.ts
+// ================================================================================
+// 🧵 Log Context - Bindings that follow an async call tree
+// Built on AsyncLocalStorage so every entry logged inside runWithContext()
+// is stamped with the bound requestId, userId and other fields
+// ================================================================================
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface LogContext {
+  requestId?: string;
+  userId?: string;
+  category?: string;
+  // W3C trace context, usually bound by the HTTP adapters from the traceparent header
+  traceId?: string;
+  spanId?: string;
+  traceFlags?: number;
+  [key: string]: unknown;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with context bound to everything it logs, including async work it
+ * starts. Nested calls inherit and extend the outer context.
+ */
+export function runWithContext<T>(context: LogContext, fn: () => T): T {
+  const current = storage.getStore();
+  return storage.run(current ? { ...current, ...context } : { ...context }, fn);
+}
+
+/**
+ * Context bound to the current async call tree, if any
+ */
+export function getContext(): LogContext | undefined {
+  return storage.getStore();
+}
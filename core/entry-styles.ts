@@ -0,0 +1,34 @@
+// core/entry-styles.ts
+// ================================================================================
+// 🖌️ Entry Styles - Specialized console layouts for entries that name a style
+// An entry logged with `style: "request"` is printed by the registered style
+// instead of the default timestamp/level layout on console and stderr outputs.
+// Other outputs, plugins and the history still see the structured entry, and
+// compact mode ignores styles so every entry stays on one line.
+// ================================================================================
+
+import type { LogEntry, Theme } from "./config.ts";
+
+export interface EntryStyleContext {
+  theme: Theme;
+  color: boolean; // ANSI codes are stripped from the result when false
+  emoji: boolean;
+}
+
+/**
+ * Renders an entry as one or more terminal lines, usually from its metadata
+ */
+export type EntryStyle = (entry: LogEntry, context: EntryStyleContext) => string;
+
+const styles = new Map<string, EntryStyle>();
+
+/**
+ * Register a style entries can name; replaces any existing style with the same name
+ */
+export function registerEntryStyle(name: string, style: EntryStyle): void {
+  styles.set(name, style);
+}
+
+export function getEntryStyle(name: string): EntryStyle | undefined {
+  return styles.get(name);
+}
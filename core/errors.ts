@@ -0,0 +1,127 @@
+// core/errors.ts
+// ================================================================================
+// 💥 Error Serialization - Turn Error objects into structured, JSON-safe data
+// Follows cause chains and AggregateError members, keeps custom properties
+// and parses V8 stack traces into frames
+// ================================================================================
+
+export interface StackFrame {
+  function?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  async?: boolean;
+  raw: string;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  frames: StackFrame[];
+  properties?: Record<string, unknown>; // Custom own properties (code, status, ...)
+  cause?: SerializedError | unknown;
+  errors?: Array<SerializedError | unknown>; // AggregateError members
+}
+
+const MAX_ERROR_DEPTH = 10;
+
+// "    at [async] [new] fn (location)" or "    at [async] location"
+const FRAME_WITH_FUNCTION = /^\s*at (async )?(.+?) \((.+)\)$/;
+const FRAME_WITHOUT_FUNCTION = /^\s*at (async )?(.+)$/;
+const LOCATION = /^(.*):(\d+):(\d+)$/;
+
+/**
+ * Parse a V8 stack trace into frames; the leading "Name: message" lines are skipped
+ */
+export function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of stack.split("\n")) {
+    if (!/^\s*at /.test(line)) continue;
+
+    const raw = line.trim();
+    const withFunction = line.match(FRAME_WITH_FUNCTION);
+    const match = withFunction ?? line.match(FRAME_WITHOUT_FUNCTION);
+    if (!match) {
+      frames.push({ raw });
+      continue;
+    }
+
+    const async = match[1] !== undefined;
+    const fn = withFunction ? match[2] : undefined;
+    const location = withFunction ? match[3] : match[2];
+    const position = location.match(LOCATION);
+
+    frames.push({
+      function: fn,
+      file: position ? position[1] : location,
+      line: position ? Number(position[2]) : undefined,
+      column: position ? Number(position[3]) : undefined,
+      async: async || undefined,
+      raw,
+    });
+  }
+
+  return frames;
+}
+
+export function isError(value: unknown): value is Error {
+  return value instanceof Error;
+}
+
+/**
+ * Whether a value has the shape produced by serializeError
+ */
+export function isSerializedError(value: unknown): value is SerializedError {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Partial<SerializedError>;
+  return typeof candidate.name === "string" &&
+    typeof candidate.message === "string" &&
+    Array.isArray(candidate.frames);
+}
+
+/**
+ * Serialize an Error, its cause chain, aggregate members and custom properties
+ */
+export function serializeError(error: Error): SerializedError {
+  return serialize(error, new Set(), 0);
+}
+
+function serialize(error: Error, seen: Set<Error>, depth: number): SerializedError {
+  seen.add(error);
+
+  const result: SerializedError = {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    frames: error.stack ? parseStack(error.stack) : [],
+  };
+
+  const properties: Record<string, unknown> = {};
+  for (const key of Object.keys(error)) {
+    if (key === "name" || key === "message" || key === "stack" || key === "cause") continue;
+    if (key === "errors" && error instanceof AggregateError) continue;
+    properties[key] = nested((error as unknown as Record<string, unknown>)[key], seen, depth);
+  }
+  if (Object.keys(properties).length > 0) {
+    result.properties = properties;
+  }
+
+  if ("cause" in error && error.cause !== undefined) {
+    result.cause = nested(error.cause, seen, depth);
+  }
+
+  if (error instanceof AggregateError) {
+    result.errors = error.errors.map((member) => nested(member, seen, depth));
+  }
+
+  return result;
+}
+
+function nested(value: unknown, seen: Set<Error>, depth: number): unknown {
+  if (!isError(value)) return value;
+  if (seen.has(value)) return `[Circular ${value.name}]`;
+  if (depth + 1 >= MAX_ERROR_DEPTH) return `[${value.name}: ${value.message}]`;
+  return serialize(value, seen, depth + 1);
+}
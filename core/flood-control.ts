@@ -0,0 +1,228 @@
+// core/flood-control.ts
+// ================================================================================
+// 🌊 Flood Control - Rate limiting, sampling and duplicate suppression
+// Keeps a failing dependency from burying the terminal, files and webhooks
+// under thousands of identical entries; bursts end with one summary entry, and
+// bursts that go on are summarized once per window
+// ================================================================================
+
+import { LogEntry, LogLevel } from "./config.ts";
+
+export interface FloodControlOptions {
+  // Fraction (0-1) of entries kept per level; unlisted levels are always kept
+  sampling?: Partial<Record<LogLevel, number>>;
+  // At most `limit` entries per message key in each `intervalMs` window
+  rateLimit?: { limit: number; intervalMs: number };
+  // Collapse repeats of a message key until it has been quiet for `windowMs`; cannot be
+  // combined with rateLimit
+  dedupe?: { windowMs: number };
+  // Message key; defaults to namespace + level + message
+  key?: (entry: LogEntry) => string;
+}
+
+/**
+ * Statistics recorded under `metadata.flood` on burst summary entries
+ */
+export interface FloodSummary {
+  key: string;
+  reason: "duplicate" | "rate-limit";
+  count: number; // Occurrences since the burst began or since its previous summary
+  suppressed: number; // Occurrences that were not emitted
+  ongoing: boolean; // The burst continues; the next summary covers what follows
+  firstSeen: string;
+  lastSeen: string;
+  durationMs: number;
+  ratePerSecond: number;
+}
+
+export interface FloodStats {
+  sampledOut: number;
+  rateLimited: number;
+  deduplicated: number;
+  summaries: number;
+  activeBursts: number;
+}
+
+interface Burst {
+  key: string;
+  first: LogEntry;
+  count: number;
+  suppressed: number;
+  firstSeen: number;
+  lastSeen: number;
+  windowStart: number;
+  windowCount: number;
+  deliver: (entry: LogEntry) => void;
+}
+
+export class FloodGuard {
+  private bursts = new Map<string, Burst>();
+  private options: FloodControlOptions = {};
+  private sweepTimer?: ReturnType<typeof setInterval>;
+  private stats = { sampledOut: 0, rateLimited: 0, deduplicated: 0, summaries: 0 };
+
+  /**
+   * Decide whether an entry is emitted. `deliver` receives the burst summary
+   * once the entry's key goes quiet.
+   */
+  admit(
+    entry: LogEntry,
+    options: FloodControlOptions,
+    deliver: (entry: LogEntry) => void,
+  ): boolean {
+    this.options = options;
+
+    const rate = options.sampling?.[entry.level];
+    if (rate !== undefined && Math.random() >= rate) {
+      this.stats.sampledOut++;
+      return false;
+    }
+
+    if (!options.rateLimit && !options.dedupe) return true;
+
+    const key = (options.key ?? defaultKey)(entry);
+    const now = Date.now();
+    const burst = this.bursts.get(key);
+
+    if (!burst) {
+      this.bursts.set(key, {
+        key,
+        first: entry,
+        count: 1,
+        suppressed: 0,
+        firstSeen: now,
+        lastSeen: now,
+        windowStart: now,
+        windowCount: 1,
+        deliver,
+      });
+      this.startSweep();
+      return true;
+    }
+
+    // A flood that never goes quiet is still reported once per window
+    if (now - burst.firstSeen >= this.quietPeriod()) {
+      this.summarize(burst, true);
+      burst.count = 0;
+      burst.suppressed = 0;
+      burst.firstSeen = now;
+    }
+
+    burst.count++;
+    burst.lastSeen = now;
+
+    if (options.dedupe) {
+      burst.suppressed++;
+      this.stats.deduplicated++;
+      return false;
+    }
+
+    const { limit, intervalMs } = options.rateLimit!;
+    if (now - burst.windowStart >= intervalMs) {
+      burst.windowStart = now;
+      burst.windowCount = 0;
+    }
+    burst.windowCount++;
+
+    if (burst.windowCount > limit) {
+      burst.suppressed++;
+      this.stats.rateLimited++;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * End every burst now, emitting pending summaries
+   */
+  flush(): void {
+    for (const burst of [...this.bursts.values()]) {
+      this.endBurst(burst);
+    }
+    this.stopSweep();
+  }
+
+  getStats(): FloodStats {
+    return { ...this.stats, activeBursts: this.bursts.size };
+  }
+
+  // ================================================================================
+  // Burst Tracking
+  // ================================================================================
+
+  private quietPeriod(): number {
+    return this.options.dedupe?.windowMs ?? this.options.rateLimit?.intervalMs ?? 1000;
+  }
+
+  private startSweep(): void {
+    if (this.sweepTimer !== undefined) return;
+
+    const interval = Math.max(10, Math.floor(this.quietPeriod() / 2));
+    this.sweepTimer = setInterval(() => this.sweep(), interval);
+    // Never keep the process alive just to report a burst
+    Deno.unrefTimer(Number(this.sweepTimer));
+  }
+
+  private stopSweep(): void {
+    if (this.sweepTimer !== undefined) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    const quiet = this.quietPeriod();
+
+    for (const burst of [...this.bursts.values()]) {
+      if (now - burst.lastSeen >= quiet) {
+        this.endBurst(burst);
+      }
+    }
+
+    if (this.bursts.size === 0) {
+      this.stopSweep();
+    }
+  }
+
+  private endBurst(burst: Burst): void {
+    this.bursts.delete(burst.key);
+    this.summarize(burst, false);
+  }
+
+  /**
+   * Deliver a summary entry for the burst, when it suppressed anything
+   */
+  private summarize(burst: Burst, ongoing: boolean): void {
+    if (burst.suppressed === 0) return;
+
+    const durationMs = burst.lastSeen - burst.firstSeen;
+    const seconds = durationMs / 1000;
+    const summary: FloodSummary = {
+      key: burst.key,
+      reason: this.options.dedupe ? "duplicate" : "rate-limit",
+      count: burst.count,
+      suppressed: burst.suppressed,
+      firstSeen: new Date(burst.firstSeen).toISOString(),
+      lastSeen: new Date(burst.lastSeen).toISOString(),
+      durationMs,
+      ratePerSecond: seconds > 0 ? Math.round((burst.count / seconds) * 100) / 100 : burst.count,
+      ongoing,
+    };
+
+    this.stats.summaries++;
+    burst.deliver({
+      ...burst.first,
+      // Both times move to the end of the burst; formatters prefer hrTime when present
+      timestamp: new Date(burst.lastSeen),
+      hrTime: burst.lastSeen,
+      message: `"${burst.first.message}" repeated ${burst.count} times in ${seconds.toFixed(1)}s` +
+        (ongoing ? " (ongoing)" : ""),
+      metadata: { ...burst.first.metadata, flood: summary },
+    });
+  }
+}
+
+function defaultKey(entry: LogEntry): string {
+  return `${entry.namespace ?? ""}|${entry.level}|${entry.message}`;
+}
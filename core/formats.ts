@@ -0,0 +1,282 @@
+// core/formats.ts
+// ================================================================================
+// 🧾 Line Formats - Named encoders that turn a LogEntry into one line
+// Built in: json, text, logfmt, ecs (Elastic Common Schema), gelf (Graylog) and
+// cef (ArcSight). Outputs, FileLoggerPlugin and RemoteLogger select one by name;
+// registerFormat adds more. Every encoder maps the entry fields the same way:
+// namespace, category, requestId, trace/span ids and the error, followed by the
+// context and metadata (metadata wins on conflicts).
+// ================================================================================
+
+import type { LogEntry } from "./config.ts";
+import { Formatter } from "./formatter.ts";
+import { levels } from "./levels.ts";
+import { isSerializedError } from "./errors.ts";
+import { NO_LIMITS, safeStringify, toSerializable } from "./serializer.ts";
+
+export interface LineFormat {
+  name: string;
+  format: (entry: LogEntry) => string; // One line, without the trailing newline
+  contentType?: string; // Content-Type for newline-joined batches, defaults to text/plain
+}
+
+const NDJSON = "application/x-ndjson";
+const ECS_VERSION = "8.11.0";
+const CEF_VENDOR = "GenesisTrace";
+const CEF_PRODUCT = "genesis-trace";
+const CEF_VERSION = "1.0";
+
+// ================================================================================
+// Registry
+// ================================================================================
+
+const formats = new Map<string, Required<LineFormat>>();
+
+/**
+ * Register a format outputs and plugins can select by name; replaces any existing format
+ */
+export function registerFormat(format: LineFormat): void {
+  if (!/^[a-z][a-z0-9_-]*$/i.test(format.name)) {
+    throw new Error(`Invalid format name "${format.name}"`);
+  }
+  formats.set(format.name, { contentType: "text/plain", ...format });
+}
+
+/**
+ * Look up a registered format; throws for unknown names
+ */
+export function getFormat(name: string): Required<LineFormat> {
+  const format = formats.get(name);
+  if (!format) {
+    throw new Error(
+      `"${name}" is not a registered format (registered: ${formatNames().join(", ")})`,
+    );
+  }
+  return format;
+}
+
+export function hasFormat(name: string): boolean {
+  return formats.has(name);
+}
+
+export function formatNames(): string[] {
+  return [...formats.keys()];
+}
+
+// ================================================================================
+// Shared Field Mapping
+// ================================================================================
+
+/**
+ * Context and metadata as plain JSON values, metadata winning on conflicts
+ */
+function extraFields(entry: LogEntry): Record<string, unknown> {
+  return toSerializable({ ...entry.context, ...entry.metadata }) as Record<string, unknown>;
+}
+
+/**
+ * Flatten nested fields into dotted keys; arrays become JSON, errors "Name: message"
+ */
+function flatten(fields: Record<string, unknown>, prefix = ""): Array<[string, unknown]> {
+  const pairs: Array<[string, unknown]> = [];
+  for (const [key, value] of Object.entries(fields)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value === undefined) continue;
+    if (isSerializedError(value)) {
+      pairs.push([path, `${value.name}: ${value.message}`]);
+    } else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+      pairs.push(...flatten(value as Record<string, unknown>, path));
+    } else {
+      pairs.push([path, Array.isArray(value) ? safeStringify(value) : value]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Core entry fields shared by the key=value formats, in a stable order
+ */
+function coreFields(entry: LogEntry): Array<[string, string | undefined]> {
+  return [
+    ["namespace", entry.namespace],
+    ["category", entry.category],
+    ["request_id", entry.requestId],
+    ["trace_id", entry.traceId],
+    ["span_id", entry.spanId],
+    ["error", entry.error && `${entry.error.name}: ${entry.error.message}`],
+  ];
+}
+
+/**
+ * Syslog severity (0 emergency … 7 debug) from the level's registry severity
+ */
+function syslogSeverity(level: string): number {
+  const severity = levels.has(level) ? levels.severity(level) : 20;
+  if (severity >= 50) return 2;
+  if (severity >= 40) return 3;
+  if (severity >= 30) return 4;
+  if (severity >= 25) return 5;
+  if (severity >= 20) return 6;
+  return 7;
+}
+
+// ================================================================================
+// Encoders
+// ================================================================================
+
+function jsonFormat(entry: LogEntry): string {
+  return safeStringify(entry);
+}
+
+/**
+ * [YYYY-MM-DD HH:mm:ss] LEVEL    [namespace] message {metadata}
+ */
+function textFormat(entry: LogEntry): string {
+  const timestamp = Formatter.timestamp(entry.timestamp, "YYYY-MM-DD HH:mm:ss");
+  const level = entry.level.toUpperCase().padEnd(8);
+  const message = entry.namespace ? `[${entry.namespace}] ${entry.message}` : entry.message;
+  const metadata = entry.metadata ? ` ${safeStringify(entry.metadata)}` : "";
+  return `[${timestamp}] ${level} ${message}${metadata}`;
+}
+
+/**
+ * time=… level=info msg="…" namespace=… user.id=7
+ */
+function logfmtFormat(entry: LogEntry): string {
+  const pairs: Array<[string, unknown]> = [
+    ["time", entry.timestamp.toISOString()],
+    ["level", entry.level],
+    ["msg", entry.message],
+    ...coreFields(entry),
+    ...flatten(extraFields(entry)),
+  ];
+  return pairs
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key.replace(/[\s="]/g, "_")}=${logfmtValue(String(value))}`)
+    .join(" ");
+}
+
+function logfmtValue(value: string): string {
+  if (value !== "" && !/[\s="\\]/.test(value)) return value;
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+/**
+ * Elastic Common Schema JSON; context and metadata are added as top-level fields
+ */
+function ecsFormat(entry: LogEntry): string {
+  const error = entry.error;
+  const ecs: Record<string, unknown> = {
+    "@timestamp": entry.timestamp.toISOString(),
+    "log.level": entry.level,
+    message: entry.message,
+    "ecs.version": ECS_VERSION,
+    log: entry.namespace ? { logger: entry.namespace } : undefined,
+    labels: entry.category ? { category: entry.category } : undefined,
+    http: entry.requestId ? { request: { id: entry.requestId } } : undefined,
+    trace: entry.traceId ? { id: entry.traceId } : undefined,
+    span: entry.spanId ? { id: entry.spanId } : undefined,
+    event: entry.span?.durationMs !== undefined
+      ? { duration: Math.round(entry.span.durationMs * 1e6) } // Nanoseconds
+      : undefined,
+    error: error
+      ? { type: error.name, message: error.message, stack_trace: error.stack }
+      : undefined,
+  };
+
+  // Schema fields come first and win over context and metadata of the same name
+  const fields = Object.fromEntries(Object.entries(ecs).filter(([, value]) => value !== undefined));
+  for (const [key, value] of Object.entries(extraFields(entry))) {
+    if (!(key in fields)) fields[key] = value;
+  }
+  return safeStringify(fields, undefined, NO_LIMITS);
+}
+
+let gelfHost: string | undefined;
+
+/**
+ * Graylog Extended Log Format 1.1; extra fields are prefixed with "_"
+ */
+function gelfFormat(entry: LogEntry): string {
+  gelfHost ??= hostname();
+  const [shortMessage, ...rest] = entry.message.split("\n");
+  const fullMessage = [entry.message, entry.error?.stack].filter(Boolean).join("\n");
+
+  const gelf: Record<string, unknown> = {
+    version: "1.1",
+    host: gelfHost,
+    short_message: shortMessage || entry.level,
+    full_message: rest.length > 0 || entry.error?.stack ? fullMessage : undefined,
+    timestamp: entry.timestamp.getTime() / 1000,
+    level: syslogSeverity(entry.level),
+    _level_name: entry.level,
+  };
+  for (const [key, value] of [...coreFields(entry), ...flatten(extraFields(entry))]) {
+    // "_id" is reserved by Graylog
+    const field = `_${key.replace(/[^\w.-]/g, "_")}`;
+    if (value !== undefined && field !== "_id") gelf[field] = value;
+  }
+  return safeStringify(gelf, undefined, NO_LIMITS);
+}
+
+function hostname(): string {
+  try {
+    return Deno.hostname();
+  } catch {
+    return "localhost";
+  }
+}
+
+/**
+ * ArcSight Common Event Format:
+ * CEF:0|GenesisTrace|genesis-trace|1.0|<category or level>|<message>|<0-10>|<extension>
+ */
+function cefFormat(entry: LogEntry): string {
+  const severity = levels.has(entry.level) ? levels.severity(entry.level) : 20;
+  const header = [
+    "CEF:0",
+    CEF_VENDOR,
+    CEF_PRODUCT,
+    CEF_VERSION,
+    entry.category ?? entry.level,
+    entry.message.split("\n")[0],
+    String(Math.min(10, Math.max(0, Math.round(severity / 5)))),
+  ].map((field, index) => index === 0 ? field : cefHeader(field)).join("|");
+
+  const extension: Array<[string, unknown]> = [
+    ["rt", String(entry.timestamp.getTime())],
+    ["msg", entry.message],
+    ["cat", entry.category],
+    ["cs1Label", entry.namespace && "namespace"],
+    ["cs1", entry.namespace],
+    ["externalId", entry.requestId],
+    ["cs2Label", entry.traceId && "traceId"],
+    ["cs2", entry.traceId],
+    ["cs3Label", entry.spanId && "spanId"],
+    ["cs3", entry.spanId],
+    ["reason", entry.error && `${entry.error.name}: ${entry.error.message}`],
+    ...flatten(extraFields(entry)),
+  ];
+  const fields = extension
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key.replace(/[\s=|\\]/g, "_")}=${cefValue(String(value))}`);
+
+  return `${header}|${fields.join(" ")}`;
+}
+
+function cefHeader(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/[\r\n]+/g, " ");
+}
+
+function cefValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/=/g, "\\=").replace(/\r?\n/g, "\\n");
+}
+
+[
+  { name: "json", format: jsonFormat, contentType: NDJSON },
+  { name: "text", format: textFormat },
+  { name: "logfmt", format: logfmtFormat },
+  { name: "ecs", format: ecsFormat, contentType: NDJSON },
+  { name: "gelf", format: gelfFormat, contentType: NDJSON },
+  { name: "cef", format: cefFormat },
+].forEach(registerFormat);
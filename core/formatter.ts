@@ -1,5 +1,20 @@
 // core/formatter.ts
 import { ColorSystem } from "./colors.ts";
+import { safeStringify } from "./serializer.ts";
+
+export interface TimestampOptions {
+  timeZone?: string; // "UTC" or an IANA zone such as "Europe/Berlin"; local time when omitted
+  locale?: string; // Month and weekday names, default "en-US"
+  previous?: number; // Epoch milliseconds of the previous line, for "delta"
+}
+
+const TIMESTAMP_PRESETS: Record<string, string> = {
+  ISO: "YYYY-MM-DD[T]HH:mm:ss.SSSZ",
+};
+
+// Longest tokens first so "MMMM" is not read as four "M"s
+const TIMESTAMP_TOKENS =
+  /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|A|a|mm|m|ss|s|SSSSSS|SSS|ZZ|Z|X|x/g;
 
 export class Formatter {
   /**
@@ -138,34 +153,83 @@ export class Formatter {
   }
 
   /**
-   * Format timestamp
+   * Format a timestamp; every token is replaced and [bracketed] text is kept as is.
+   *
+   * Tokens: YYYY YY, MMMM MMM MM M, DD D, dddd ddd, HH H, hh h, A a, mm m, ss s,
+   * SSS (milliseconds), SSSSSS (microseconds), Z (+02:00), ZZ (+0200), X (unix seconds),
+   * x (unix milliseconds). Whole-format presets: "ISO" (ISO-8601 with the zone offset),
+   * "elapsed" (since process start) and "delta" (since `options.previous`; +0.000ms without it).
+   *
+   * Pass epoch milliseconds such as LogEntry.hrTime for sub-millisecond precision.
    */
-  static timestamp(date: Date, format = "HH:mm:ss"): string {
-    const pad = (n: number) => n.toString().padStart(2, "0");
-
-    const tokens: Record<string, string> = {
-      "YYYY": date.getFullYear().toString(),
-      "MM": pad(date.getMonth() + 1),
-      "DD": pad(date.getDate()),
-      "HH": pad(date.getHours()),
-      "mm": pad(date.getMinutes()),
-      "ss": pad(date.getSeconds()),
-      "SSS": date.getMilliseconds().toString().padStart(3, "0"),
+  static timestamp(
+    date: Date | number,
+    format = "HH:mm:ss",
+    options: TimestampOptions = {},
+  ): string {
+    const time = typeof date === "number" ? date : date.getTime();
+
+    if (format === "elapsed") return this.offset(time - performance.timeOrigin);
+    if (format === "delta") return this.offset(Math.max(0, time - (options.previous ?? time)));
+
+    const { timeZone, locale = "en-US" } = options;
+    const fields = zonedFields(time, timeZone);
+    const pad = (n: number, width = 2) => Math.abs(n).toString().padStart(width, "0");
+    const offset = (separator: string) =>
+      `${fields.offset < 0 ? "-" : "+"}${pad(Math.trunc(fields.offset / 60))}${separator}` +
+      pad(fields.offset % 60);
+    const hour12 = fields.hour % 12 || 12;
+    const micros = ((Math.floor(time * 1000) % 1_000_000) + 1_000_000) % 1_000_000;
+
+    const tokens: Record<string, () => string> = {
+      YYYY: () => fields.year.toString(),
+      YY: () => pad(fields.year % 100),
+      MMMM: () => dateName(time, locale, timeZone, { month: "long" }),
+      MMM: () => dateName(time, locale, timeZone, { month: "short" }),
+      MM: () => pad(fields.month),
+      M: () => fields.month.toString(),
+      DD: () => pad(fields.day),
+      D: () => fields.day.toString(),
+      dddd: () => dateName(time, locale, timeZone, { weekday: "long" }),
+      ddd: () => dateName(time, locale, timeZone, { weekday: "short" }),
+      HH: () => pad(fields.hour),
+      H: () => fields.hour.toString(),
+      hh: () => pad(hour12),
+      h: () => hour12.toString(),
+      A: () => fields.hour < 12 ? "AM" : "PM",
+      a: () => fields.hour < 12 ? "am" : "pm",
+      mm: () => pad(fields.minute),
+      m: () => fields.minute.toString(),
+      ss: () => pad(fields.second),
+      s: () => fields.second.toString(),
+      SSSSSS: () => pad(micros, 6),
+      SSS: () => pad(Math.floor(micros / 1000), 3),
+      Z: () => offset(":"),
+      ZZ: () => offset(""),
+      X: () => Math.floor(time / 1000).toString(),
+      x: () => Math.floor(time).toString(),
     };
 
-    let result = format;
-    for (const [token, value] of Object.entries(tokens)) {
-      result = result.replace(token, value);
-    }
+    return (TIMESTAMP_PRESETS[format] ?? format).replace(
+      TIMESTAMP_TOKENS,
+      (token, literal?: string) => literal ?? tokens[token](),
+    );
+  }
 
-    return result;
+  /**
+   * Offset from a reference time with microsecond precision, e.g. +0.245ms or +3.412s
+   */
+  private static offset(ms: number): string {
+    if (ms < 1000) return `+${ms.toFixed(3)}ms`;
+    if (ms < 60000) return `+${(ms / 1000).toFixed(3)}s`;
+    return `+${this.duration(ms)}`;
   }
 
   /**
    * Format JSON with syntax highlighting
    */
   static json(obj: any, indent = 2, colorize = true): string {
-    const json = JSON.stringify(obj, null, indent);
+    const json = safeStringify(obj, indent);
 
     if (!colorize) return json;
 
@@ -201,3 +265,104 @@ export class Formatter {
     return this.pad(truncated, width, align);
   }
 }
+
+// ================================================================================
+// Time Zones
+// ================================================================================
+
+interface ZonedFields {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  offset: number; // Minutes east of UTC
+}
+
+const intlCache = new Map<string, Intl.DateTimeFormat>();
+
+function intlFormat(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let format = intlCache.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, options);
+    intlCache.set(key, format);
+  }
+  return format;
+}
+
+/**
+ * Calendar fields of a time in local time, UTC or an IANA zone
+ */
+function zonedFields(time: number, timeZone?: string): ZonedFields {
+  const date = new Date(time);
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      offset: -date.getTimezoneOffset(),
+    };
+  }
+  if (timeZone === "UTC") {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      offset: 0,
+    };
+  }
+
+  const parts: Record<string, number> = {};
+  const format = intlFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  });
+  for (const part of format.formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+
+  const fields = {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+  const wallClock = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second,
+  );
+  const offset = Math.round((wallClock - Math.floor(time / 1000) * 1000) / 60000);
+  return { ...fields, offset };
+}
+
+/**
+ * Locale month or weekday name in the given zone
+ */
+function dateName(
+  time: number,
+  locale: string,
+  timeZone: string | undefined,
+  options: Intl.DateTimeFormatOptions,
+): string {
+  return intlFormat(locale, { ...options, timeZone }).format(time);
+}
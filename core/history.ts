@@ -0,0 +1,292 @@
+// core/history.ts
+// ================================================================================
+// 🗃️ Log History - Fixed-capacity ring buffer with level and namespace indexes
+// Appends and evictions are O(1); queries start from the smallest matching
+// index instead of scanning and copying the whole history
+// ================================================================================
+
+import { LogEntry, LogLevel } from "./config.ts";
+import { levels } from "./levels.ts";
+import { namespacePattern } from "./namespaces.ts";
+import { compileQuery, LogPredicate } from "./query.ts";
+import { safeStringify } from "./serializer.ts";
+
+export interface HistoryQuery {
+  level?: LogLevel; // Exactly this level
+  minLevel?: LogLevel; // Inclusive severity range
+  maxLevel?: LogLevel;
+  namespace?: string; // Exact namespace, or a glob such as "app:db*"
+  search?: string | RegExp; // Message text; strings match case-insensitively
+  metadata?: Record<string, unknown>; // Dot paths that must equal the given values
+  since?: Date; // Inclusive time window
+  until?: Date;
+  where?: string | LogPredicate; // Query language string, e.g. 'level>=warning and msg~"timeout"'
+  order?: "asc" | "desc"; // Oldest first by default
+  offset?: number;
+  limit?: number;
+}
+
+export interface HistoryPage {
+  entries: LogEntry[];
+  total: number; // Matches before offset and limit were applied
+  offset: number;
+  limit?: number;
+}
+
+/**
+ * Ascending sequence numbers; evicted entries are always at the front
+ */
+class SequenceQueue {
+  private items: number[] = [];
+  private start = 0;
+
+  push(sequence: number): void {
+    this.items.push(sequence);
+  }
+
+  /**
+   * Drop the front item if it is the evicted sequence number
+   */
+  evict(sequence: number): void {
+    if (this.items[this.start] !== sequence) return;
+    this.start++;
+    // Compact once the dead prefix dominates, keeping eviction amortized O(1)
+    if (this.start > 1024 && this.start * 2 > this.items.length) {
+      this.items = this.items.slice(this.start);
+      this.start = 0;
+    }
+  }
+
+  get size(): number {
+    return this.items.length - this.start;
+  }
+
+  values(): number[] {
+    return this.items.slice(this.start);
+  }
+}
+
+export class LogHistory {
+  private slots: Array<LogEntry | undefined>;
+  private next = 0; // Sequence number of the next entry
+  private byLevel = new Map<LogLevel, SequenceQueue>();
+  private byNamespace = new Map<string, SequenceQueue>();
+
+  constructor(private capacity: number) {
+    this.slots = new Array(Math.max(0, capacity));
+  }
+
+  get size(): number {
+    return Math.min(this.next, this.capacity);
+  }
+
+  private get oldest(): number {
+    return this.next - this.size;
+  }
+
+  push(entry: LogEntry): void {
+    if (this.capacity <= 0) return;
+
+    if (this.next >= this.capacity) {
+      this.evict(this.next - this.capacity);
+    }
+
+    const sequence = this.next++;
+    this.slots[sequence % this.capacity] = entry;
+    this.index(this.byLevel, entry.level).push(sequence);
+    this.index(this.byNamespace, entry.namespace ?? "").push(sequence);
+  }
+
+  /**
+   * Change the capacity, keeping the newest entries
+   */
+  resize(capacity: number): void {
+    if (capacity === this.capacity) return;
+
+    const entries = this.toArray().slice(-Math.max(0, capacity));
+    this.capacity = capacity;
+    this.clear();
+    entries.forEach((entry) => this.push(entry));
+  }
+
+  clear(): void {
+    this.slots = new Array(Math.max(0, this.capacity));
+    this.next = 0;
+    this.byLevel.clear();
+    this.byNamespace.clear();
+  }
+
+  /**
+   * All entries, oldest first
+   */
+  toArray(): LogEntry[] {
+    const entries: LogEntry[] = [];
+    for (let sequence = this.oldest; sequence < this.next; sequence++) {
+      entries.push(this.at(sequence));
+    }
+    return entries;
+  }
+
+  // ================================================================================
+  // Queries
+  // ================================================================================
+
+  query(query: HistoryQuery | string = {}): LogEntry[] {
+    return this.page(query).entries;
+  }
+
+  count(query: HistoryQuery | string = {}): number {
+    return this.matches(typeof query === "string" ? { where: query } : query).length;
+  }
+
+  page(query: HistoryQuery | string = {}): HistoryPage {
+    if (typeof query === "string") query = { where: query };
+    const sequences = this.matches(query);
+    if (query.order === "desc") sequences.reverse();
+
+    const offset = Math.max(0, query.offset ?? 0);
+    const end = query.limit === undefined ? undefined : offset + Math.max(0, query.limit);
+
+    return {
+      entries: sequences.slice(offset, end).map((sequence) => this.at(sequence)),
+      total: sequences.length,
+      offset,
+      limit: query.limit,
+    };
+  }
+
+  /**
+   * Sequence numbers of matching entries, oldest first
+   */
+  private matches(query: HistoryQuery): number[] {
+    const levelRange = this.levelRange(query);
+    const namespaceRegex = query.namespace?.includes("*")
+      ? namespacePattern(query.namespace)
+      : undefined;
+    const search = typeof query.search === "string" ? query.search.toLowerCase() : query.search;
+    const where = typeof query.where === "string" ? compileQuery(query.where) : query.where;
+
+    const predicate = (entry: LogEntry): boolean => {
+      if (levelRange && !levelRange.has(entry.level)) return false;
+      if (query.namespace !== undefined) {
+        const namespace = entry.namespace ?? "";
+        if (namespaceRegex ? !namespaceRegex.test(namespace) : namespace !== query.namespace) {
+          return false;
+        }
+      }
+      if (query.since && entry.timestamp < query.since) return false;
+      if (query.until && entry.timestamp > query.until) return false;
+      if (search !== undefined && !matchesSearch(entry.message, search)) return false;
+      if (query.metadata && !matchesMetadata(entry, query.metadata)) return false;
+      if (where && !where(entry)) return false;
+      return true;
+    };
+
+    return this.candidates(levelRange, query.namespace, namespaceRegex)
+      .filter((sequence) => predicate(this.at(sequence)));
+  }
+
+  /**
+   * Smallest ascending candidate set offered by the level and namespace indexes
+   */
+  private candidates(
+    levelRange: Set<LogLevel> | undefined,
+    namespace: string | undefined,
+    namespaceRegex: RegExp | undefined,
+  ): number[] {
+    const sets: SequenceQueue[][] = [];
+
+    if (levelRange) {
+      sets.push(
+        [...levelRange]
+          .map((level) => this.byLevel.get(level))
+          .filter((queue) => queue !== undefined),
+      );
+    }
+    if (namespace !== undefined) {
+      sets.push(
+        [...this.byNamespace]
+          .filter(([name]) => namespaceRegex ? namespaceRegex.test(name) : name === namespace)
+          .map(([, queue]) => queue),
+      );
+    }
+
+    if (sets.length === 0) {
+      return Array.from({ length: this.size }, (_, index) => this.oldest + index);
+    }
+
+    const size = (queues: SequenceQueue[]) => queues.reduce((sum, queue) => sum + queue.size, 0);
+    const smallest = sets.reduce((best, queues) => size(queues) < size(best) ? queues : best);
+    const sequences = smallest.flatMap((queue) => queue.values());
+    return smallest.length > 1 ? sequences.sort((a, b) => a - b) : sequences;
+  }
+
+  /**
+   * Levels allowed by level/minLevel/maxLevel, or undefined when unrestricted
+   */
+  private levelRange(query: HistoryQuery): Set<LogLevel> | undefined {
+    if (query.level !== undefined) return new Set([query.level]);
+    if (query.minLevel === undefined && query.maxLevel === undefined) return undefined;
+
+    const min = query.minLevel === undefined ? -Infinity : levels.severity(query.minLevel);
+    const max = query.maxLevel === undefined ? Infinity : levels.severity(query.maxLevel);
+    return new Set(
+      levels.list()
+        .filter((definition) => definition.severity >= min && definition.severity <= max)
+        .map((definition) => definition.name),
+    );
+  }
+
+  private at(sequence: number): LogEntry {
+    return this.slots[sequence % this.capacity]!;
+  }
+
+  private evict(sequence: number): void {
+    const entry = this.at(sequence);
+    this.evictFrom(this.byLevel, entry.level, sequence);
+    this.evictFrom(this.byNamespace, entry.namespace ?? "", sequence);
+  }
+
+  private index(map: Map<string, SequenceQueue>, key: string): SequenceQueue {
+    let queue = map.get(key);
+    if (!queue) {
+      queue = new SequenceQueue();
+      map.set(key, queue);
+    }
+    return queue;
+  }
+
+  private evictFrom(map: Map<string, SequenceQueue>, key: string, sequence: number): void {
+    const queue = map.get(key);
+    if (!queue) return;
+    queue.evict(sequence);
+    if (queue.size === 0) map.delete(key);
+  }
+}
+
+function matchesSearch(message: string, search: string | RegExp): boolean {
+  if (typeof search === "string") return message.toLowerCase().includes(search);
+  search.lastIndex = 0;
+  return search.test(message);
+}
+
+/**
+ * Every dot path must equal its expected value, looked up in metadata, then context
+ */
+function matchesMetadata(entry: LogEntry, expected: Record<string, unknown>): boolean {
+  return Object.entries(expected).every(([path, value]) => {
+    const actual = lookup(entry.metadata, path) ?? lookup(entry.context, path);
+    if (Object.is(actual, value)) return true;
+    if (typeof actual !== "object" || typeof value !== "object") return false;
+    return safeStringify(actual) === safeStringify(value);
+  });
+}
+
+function lookup(source: Record<string, unknown> | undefined, path: string): unknown {
+  let current: unknown = source;
+  for (const key of path.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
@@ -0,0 +1,121 @@
+// core/levels.ts
+// ================================================================================
+// 📶 Level Registry - One source of truth for log level severities
+// Built-in levels are registered up front; applications can add their own
+// (trace, notice, audit, fatal, ...) with a severity, color, symbol and theme slot
+// ================================================================================
+
+export type BuiltinLogLevel = "debug" | "info" | "success" | "warning" | "error" | "critical";
+
+/**
+ * Theme color/symbol slot a level renders with when it has no color or symbol of its own
+ */
+export type LevelThemeSlot = BuiltinLogLevel;
+
+export interface LevelDefinition {
+  name: string;
+  severity: number; // Higher is more severe
+  color?: string; // ANSI color, overrides the theme slot color
+  symbol?: string; // Overrides the theme slot symbol
+  themeSlot?: LevelThemeSlot;
+}
+
+const BUILTIN_LEVELS: LevelDefinition[] = [
+  { name: "debug", severity: 10, themeSlot: "debug" },
+  { name: "info", severity: 20, themeSlot: "info" },
+  { name: "success", severity: 25, themeSlot: "success" },
+  { name: "warning", severity: 30, themeSlot: "warning" },
+  { name: "error", severity: 40, themeSlot: "error" },
+  { name: "critical", severity: 50, themeSlot: "critical" },
+];
+
+export class LevelRegistry {
+  private definitions = new Map<string, LevelDefinition & { themeSlot: LevelThemeSlot }>();
+
+  constructor(definitions: LevelDefinition[] = BUILTIN_LEVELS) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  /**
+   * Add a level, or replace an existing one with the same name
+   */
+  register(definition: LevelDefinition): void {
+    if (!/^[a-z][a-z0-9_-]*$/i.test(definition.name)) {
+      throw new Error(`Invalid level name "${definition.name}"`);
+    }
+    if (!Number.isFinite(definition.severity)) {
+      throw new Error(`Level "${definition.name}" needs a finite numeric severity`);
+    }
+
+    this.definitions.set(definition.name, {
+      ...definition,
+      themeSlot: definition.themeSlot ?? this.nearestSlot(definition.severity),
+    });
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  get(name: string): LevelDefinition | undefined {
+    const definition = this.definitions.get(name);
+    return definition ? { ...definition } : undefined;
+  }
+
+  /**
+   * Severity of a level; throws for unknown levels
+   */
+  severity(name: string): number {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new Error(`Unknown log level "${name}"`);
+    }
+    return definition.severity;
+  }
+
+  /**
+   * Whether a level passes a minimum-level threshold
+   */
+  isEnabled(level: string, threshold: string): boolean {
+    return this.severity(level) >= this.severity(threshold);
+  }
+
+  /**
+   * Theme slot used to render a level
+   */
+  slot(name: string): LevelThemeSlot {
+    return this.definitions.get(name)?.themeSlot ?? "info";
+  }
+
+  /**
+   * All levels ordered from least to most severe
+   */
+  list(): LevelDefinition[] {
+    return [...this.definitions.values()]
+      .sort((a, b) => a.severity - b.severity)
+      .map((definition) => ({ ...definition }));
+  }
+
+  /**
+   * Built-in slot whose severity is closest to (without exceeding) the given one
+   */
+  private nearestSlot(severity: number): LevelThemeSlot {
+    let slot: LevelThemeSlot = "debug";
+    for (const builtin of BUILTIN_LEVELS) {
+      if (builtin.severity <= severity) slot = builtin.themeSlot!;
+    }
+    return slot;
+  }
+}
+
+/**
+ * Shared registry consulted by Logger, its outputs and the built-in plugins
+ */
+export const levels = new LevelRegistry();
+
+/**
+ * Register a custom level on the shared registry
+ */
+export function registerLevel(definition: LevelDefinition): void {
+  levels.register(definition);
+}
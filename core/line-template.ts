@@ -0,0 +1,293 @@
+// core/line-template.ts
+// ================================================================================
+// 🧩 Line Templates - Token layout for console and stderr lines
+// "{time:muted:brackets} {level:upper:pad7:color} {ns:color} {msg} {meta:inline}"
+// Each {token} takes colon-separated modifiers for case, alignment and theme
+// styling. Compact mode keeps every entry on one line for `docker logs`.
+// ================================================================================
+
+import type { LogEntry, Theme } from "./config.ts";
+import { colors } from "./colors.ts";
+import { Formatter } from "./formatter.ts";
+import { levels } from "./levels.ts";
+import { namespaceColor } from "./namespaces.ts";
+import { isSerializedError, SerializedError } from "./errors.ts";
+import { safeStringify, toSerializable } from "./serializer.ts";
+import { defaultTheme } from "../themes/default.ts";
+
+/**
+ * The layout Logger.render used before templates existed
+ */
+export const DEFAULT_LINE_TEMPLATE = "{time:muted:brackets} {symbol:color} {ns:color:brackets} " +
+  "{msg:color} {meta}";
+
+export interface LineTemplateContext {
+  theme: Theme;
+  color: boolean;
+  emoji: boolean;
+  compact: boolean; // One line per entry: metadata and errors inline, newlines escaped
+  timestampFormat: string;
+  dateFormat: string;
+  timeZone?: string;
+  locale?: string;
+  previous?: number; // Time of the previous line on the same output, for "delta" timestamps
+  renderError: (error: SerializedError) => string[]; // Trace lines for expanded errors
+}
+
+type MetadataMode = "inline" | "json" | "expanded";
+
+interface TemplateToken {
+  name: string;
+  transforms: string[]; // Case, truncation, brackets and alignment, in template order
+  styles: string[];
+  metadata?: MetadataMode;
+}
+
+type TokenValue = (entry: LogEntry, context: LineTemplateContext) => string;
+
+const TOKENS: Record<string, TokenValue> = {
+  time: (entry, context) =>
+    Formatter.timestamp(entry.hrTime ?? entry.timestamp, context.timestampFormat, context),
+  date: (entry, context) =>
+    Formatter.timestamp(entry.hrTime ?? entry.timestamp, context.dateFormat, context),
+  level: (entry) => entry.level,
+  symbol: (entry, context) =>
+    context.emoji
+      ? levels.get(entry.level)?.symbol ?? context.theme.symbols[levels.slot(entry.level)]
+      : "",
+  ns: (entry) => entry.namespace ?? "",
+  msg: (entry) => entry.message,
+  category: (entry) => entry.category ?? "",
+  req: (entry) => entry.requestId ?? "",
+  trace: (entry) => entry.traceId ?? "",
+  span: (entry) => entry.span?.name ?? "",
+  meta: () => "", // Rendered from the entry's context and metadata
+};
+
+const METADATA_MODES: MetadataMode[] = ["inline", "json", "expanded"];
+const TRANSFORM = /^(upper|lower|brackets|(pad|lpad|max)\d+)$/;
+
+// ================================================================================
+// Compilation
+// ================================================================================
+
+const compiled = new Map<string, LineTemplate>();
+
+/**
+ * Parse a template, reusing the result for templates seen before; throws on unknown
+ * tokens and modifiers
+ */
+export function compileLineTemplate(source: string): LineTemplate {
+  let template = compiled.get(source);
+  if (!template) {
+    template = new LineTemplate(source);
+    compiled.set(source, template);
+  }
+  return template;
+}
+
+export class LineTemplate {
+  private segments: Array<string | TemplateToken> = [];
+
+  constructor(readonly source: string) {
+    let last = 0;
+    for (const match of source.matchAll(/\{([^{}]*)\}/g)) {
+      if (match.index > last) this.segments.push(source.slice(last, match.index));
+      this.segments.push(this.parseToken(match[1]));
+      last = match.index + match[0].length;
+    }
+    if (last < source.length) this.segments.push(source.slice(last));
+  }
+
+  /**
+   * Render an entry; expanded metadata and error traces follow on indented lines
+   */
+  render(entry: LogEntry, context: LineTemplateContext): string {
+    const details: Record<string, unknown> = {};
+    const errors: SerializedError[] = entry.error ? [entry.error] : [];
+    for (const [key, value] of Object.entries({ ...entry.context, ...entry.metadata })) {
+      if (isSerializedError(value)) {
+        errors.push(value);
+      } else {
+        details[key] = value;
+      }
+    }
+
+    let line = "";
+    let below: string[] = [];
+    let errorsShown = false;
+    let trimSeparator = false; // An empty token drops the space that separates it
+
+    for (const segment of this.segments) {
+      if (typeof segment === "string") {
+        line += trimSeparator ? segment.replace(/^ /, "") : segment;
+        trimSeparator = false;
+        continue;
+      }
+
+      let value: string;
+      if (segment.metadata) {
+        const mode = context.compact ? "inline" : segment.metadata;
+        if (mode === "expanded") {
+          below = this.expanded(details, errors, context);
+          errorsShown = true;
+          value = "";
+        } else {
+          // The entry error keeps the "error" key unless the metadata already uses it
+          const fields = { ...details };
+          errors.forEach((error, index) => {
+            const key = index === 0 && entry.error && !("error" in fields)
+              ? "error"
+              : `error${index}`;
+            fields[key] = `${error.name}: ${error.message}`;
+          });
+          errorsShown = true;
+          value = mode === "json"
+            ? (Object.keys(fields).length > 0 ? safeStringify(fields) : "")
+            : inlineFields(toSerializable(fields) as Record<string, unknown>).join(" ");
+        }
+      } else {
+        value = TOKENS[segment.name](entry, context);
+      }
+      if (context.compact) value = value.replace(/\r?\n/g, "\\n");
+
+      value = this.decorate(value, segment, entry, context);
+      trimSeparator = value === "";
+      line += value;
+    }
+    if (trimSeparator) line = line.replace(/ $/, "");
+
+    if (!errorsShown && errors.length > 0) {
+      if (context.compact) {
+        line += errors.map((error) => ` ${error.name}: ${error.message}`).join("");
+      } else {
+        below = errors.flatMap(context.renderError);
+      }
+    }
+
+    return [line, ...below].join("\n");
+  }
+
+  private expanded(
+    details: Record<string, unknown>,
+    errors: SerializedError[],
+    context: LineTemplateContext,
+  ): string[] {
+    const lines: string[] = [];
+    if (Object.keys(details).length > 0) {
+      const metadataStr = Formatter.json(details, 2, context.color);
+      lines.push(metadataStr.split("\n").map((line) => "  " + line).join("\n"));
+    }
+    for (const error of errors) {
+      lines.push(...context.renderError(error));
+    }
+    return lines;
+  }
+
+  /**
+   * Apply case, truncation, brackets and alignment, then styles
+   */
+  private decorate(
+    value: string,
+    token: TemplateToken,
+    entry: LogEntry,
+    context: LineTemplateContext,
+  ): string {
+    if (value === "") return value;
+
+    for (const transform of token.transforms) {
+      const width = Number(transform.replace(/^\D+/, ""));
+      if (transform === "upper") value = value.toUpperCase();
+      else if (transform === "lower") value = value.toLowerCase();
+      else if (transform === "brackets") value = `[${value}]`;
+      else if (transform.startsWith("pad")) value = value.padEnd(width);
+      else if (transform.startsWith("lpad")) value = value.padStart(width);
+      else if (value.length > width) value = value.slice(0, Math.max(0, width - 1)) + "…";
+    }
+
+    if (!context.color || token.styles.length === 0) return value;
+    const codes = token.styles.map((style) => styleCode(style, token, entry, context.theme));
+    return `${codes.join("")}${value}${colors.reset}`;
+  }
+
+  private parseToken(body: string): TemplateToken {
+    const [name, ...modifiers] = body.trim().split(":").map((part) => part.trim());
+    if (!(name in TOKENS)) {
+      throw new Error(
+        `Invalid line template "${this.source}": unknown token {${name}} ` +
+          `(tokens: ${Object.keys(TOKENS).join(", ")})`,
+      );
+    }
+
+    const token: TemplateToken = { name, transforms: [], styles: [] };
+    if (name === "meta") token.metadata = "expanded";
+
+    for (const modifier of modifiers) {
+      if (name === "meta" && METADATA_MODES.includes(modifier as MetadataMode)) {
+        token.metadata = modifier as MetadataMode;
+      } else if (TRANSFORM.test(modifier)) {
+        token.transforms.push(modifier);
+      } else if (isStyle(modifier)) {
+        token.styles.push(modifier);
+      } else {
+        throw new Error(
+          `Invalid line template "${this.source}": unknown modifier "${modifier}" for {${name}}`,
+        );
+      }
+    }
+    return token;
+  }
+}
+
+// ================================================================================
+// Helpers
+// ================================================================================
+
+/**
+ * "color" (level color, or the namespace's own color for {ns}), "bold", a theme color
+ * slot such as "muted" or "accent", or an ANSI color name such as "dim" or "cyan"
+ */
+function isStyle(modifier: string): boolean {
+  return modifier === "color" || modifier === "bold" || modifier in defaultTheme.colors ||
+    ansiCode(modifier) !== undefined;
+}
+
+function styleCode(style: string, token: TemplateToken, entry: LogEntry, theme: Theme): string {
+  let code = style;
+  if (style === "color") {
+    code = token.name === "ns" && entry.namespace
+      ? namespaceColor(entry.namespace)
+      : levels.get(entry.level)?.color ?? theme.colors[levels.slot(entry.level)];
+  } else if (style === "bold") {
+    code = "bright";
+  } else if (style in theme.colors) {
+    code = theme.colors[style as keyof Theme["colors"]];
+  }
+  // Themes and levels may name a color instead of giving its escape code
+  return ansiCode(code) ?? code;
+}
+
+function ansiCode(name: string): string | undefined {
+  const code = (colors as Record<string, unknown>)[name];
+  return typeof code === "string" ? code : undefined;
+}
+
+/**
+ * key=value pairs from serialized fields; nested objects become dotted keys and undefined
+ * values are left out
+ */
+function inlineFields(fields: Record<string, unknown>, prefix = ""): string[] {
+  return Object.entries(fields).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value === undefined) return [];
+    if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+      return inlineFields(value as Record<string, unknown>, path);
+    }
+    return [`${path}=${inlineValue(value)}`];
+  });
+}
+
+function inlineValue(value: unknown): string {
+  const text = typeof value === "object" && value !== null ? safeStringify(value) : String(value);
+  return text === "" || /[\s="]/.test(text) ? JSON.stringify(text) : text;
+}
@@ -1,162 +1,822 @@
 // core/logger.ts
-import { defaultConfig, LogEntry, LogLevel, StylerConfig } from "./config.ts";
+import {
+  defaultConfig,
+  LogEntry,
+  LogLevel,
+  LogOutput,
+  Plugin,
+  PluginMethod,
+  PluginMethods,
+  StylerConfig,
+} from "./config.ts";
 import { ColorSystem } from "./colors.ts";
 import { Formatter } from "./formatter.ts";
+import { getContext, LogContext, runWithContext } from "./context.ts";
+import { createOutputSink, OutputSink } from "./outputs.ts";
+import { PluginPipeline, PluginStatus } from "./plugin-pipeline.ts";
+import { levels } from "./levels.ts";
+import { getEntryStyle } from "./entry-styles.ts";
+import { compileLineTemplate, DEFAULT_LINE_TEMPLATE } from "./line-template.ts";
+import { NamespaceFilter } from "./namespaces.ts";
+import { FloodGuard, FloodStats } from "./flood-control.ts";
+import { NO_LIMITS, safeStringify, toSerializable } from "./serializer.ts";
+import { Redactor } from "./redaction.ts";
+import { HistoryPage, HistoryQuery, LogHistory } from "./history.ts";
+import {
+  ActiveSpan,
+  activeSpan,
+  runInSpan,
+  SpanInfo,
+  SpanRecorder,
+  SpanStats,
+  SpanSummaryOptions,
+  startSpan,
+  Timer,
+} from "./spans.ts";
+import { TableRenderer } from "../components/tables.ts";
+import { isError, isSerializedError, SerializedError, serializeError } from "./errors.ts";
+import { ConfigChange, ConfigWatcher, ConfigWatchOptions } from "./config-watcher.ts";
+import { validateLoggerConfig } from "./config-loader.ts";
+import { AdminServer, AdminServerOptions } from "./admin.ts";
+
+// Stack frames shown per error in terminal output
+const MAX_RENDERED_FRAMES = 10;
+
+// Options a config reload may change; the namespace and plugins are fixed at construction
+const RELOADABLE_KEYS: Array<keyof StylerConfig> = [
+  "logLevel",
+  "namespaceFilter",
+  "theme",
+  "outputs",
+  "colorMode",
+  "emojiMode",
+  "unicodeMode",
+  "timestampFormat",
+  "dateFormat",
+  "timeZone",
+  "locale",
+  "indentSize",
+  "maxLineWidth",
+  "lineTemplate",
+  "compact",
+  "enableHistory",
+  "maxHistorySize",
+  "floodControl",
+  "redaction",
+  "spanSummary",
+];
+
+/**
+ * Log message, or a thunk evaluated only when the entry will be emitted
+ */
+export type LogMessage = string | Error | (() => string | Error);
+
+/**
+ * Log metadata, or a thunk evaluated only when the entry will be emitted
+ */
+export type LogMetadata =
+  | Record<string, any>
+  | Error
+  | (() => Record<string, any> | Error | undefined);
+
+/**
+ * Entry fields set by the caller rather than taken from the context
+ */
+export type EntryFields = Pick<LogEntry, "category" | "style">;
+
+export interface ChildLoggerOptions extends Partial<StylerConfig> {
+  // Structured fields merged into the metadata of every entry
+  bindings?: Record<string, unknown>;
+}
 
 export class Logger {
-  private history: LogEntry[] = [];
+  // Shared loggers handed out by Logger.get, keyed by namespace ("" is the root)
+  private static registry = new Map<string, Logger>();
+
+  // History is shared with child loggers, so the root sees the whole tree's entries
+  private history: LogHistory;
   private namespace?: string;
+  // Root loggers own their config; children layer overrides on their parent's live config
+  private ownConfig: StylerConfig;
+  private parent?: Logger;
+  private overrides: Partial<StylerConfig> = {};
+  private bindings: Record<string, unknown> = {};
+  // Sinks are keyed by output and shared with child loggers
+  private sinks = new Map<LogOutput, OutputSink>();
+  // Time of the last line rendered per output, for "delta" timestamps; shared like sinks
+  private lineTimes = new WeakMap<LogOutput, number>();
+  // Plugin queues; children without their own use the parent's (see pipeline)
+  private ownPipeline?: PluginPipeline = new PluginPipeline();
+  // Flood control state is shared with child loggers
+  private floodGuard = new FloodGuard();
+  // Span timings are shared with child loggers
+  private spanRecorder = new SpanRecorder();
+  // Names of methods attached by plugins through extendMethods
+  private extensions = new Set<string>();
+  // Reloadable options as they were before the first reload, restored when a reload omits them
+  private reloadBase?: Partial<StylerConfig>;
+  private watchers = new Set<ConfigWatcher>();
+  // Children are held weakly so short-lived (e.g. per-request) children can be collected
+  private children = new Set<WeakRef<Logger>>();
+  private revertTimers = new Set<ReturnType<typeof setTimeout>>();
+  private adminServer?: AdminServer;
 
   constructor(
-    private config: StylerConfig = defaultConfig,
+    config: StylerConfig = defaultConfig,
     namespace?: string,
   ) {
+    validateLoggerConfig(config);
+    this.ownConfig = config;
     this.namespace = namespace ?? config.namespace;
+    this.history = new LogHistory(config.maxHistorySize);
     // Initialize plugins
-    this.config.plugins.forEach((plugin) => {
-      plugin.onInit?.(this.config);
-    });
+    this.pipeline.addAll(this.config.plugins, this.config);
+    this.config.plugins.forEach((plugin) => this.applyExtensions(plugin));
+  }
+
+  /**
+   * Shared logger for a namespace such as "app:db", created on first use as a child of its
+   * parent namespace ("app"), so it inherits the level, outputs and plugins configured on its
+   * nearest ancestor. Without a namespace, returns the shared root logger.
+   */
+  static get(namespace = ""): Logger {
+    const existing = Logger.registry.get(namespace);
+    if (existing) return existing;
+
+    const separator = namespace.lastIndexOf(":");
+    const logger = namespace === ""
+      ? new Logger({ ...defaultConfig, plugins: [] })
+      : Logger.get(separator === -1 ? "" : namespace.slice(0, separator))
+        .child(namespace.slice(separator + 1));
+    Logger.registry.set(namespace, logger);
+    return logger;
+  }
+
+  /**
+   * Set the level of shared loggers matching a pattern (e.g. "app:*"); see setNamespaceLevel
+   */
+  static setLevel(pattern: string, level: LogLevel | "off", revertAfterMs?: number): () => void {
+    return Logger.get().setNamespaceLevel(pattern, level, revertAfterMs);
+  }
+
+  /**
+   * Every logger created through Logger.get so far, with their live children; the root comes
+   * first and its getNamespace() is ""
+   */
+  static getLoggers(): Logger[] {
+    const root = Logger.registry.get("");
+    if (!root) return [];
+
+    const loggers: Logger[] = [];
+    const visit = (logger: Logger) => {
+      loggers.push(logger);
+      logger.getChildren().forEach(visit);
+    };
+    visit(root);
+    return loggers;
+  }
+
+  /**
+   * Plugin pipeline in effect: this logger's own, else the nearest ancestor's
+   */
+  private get pipeline(): PluginPipeline {
+    return this.ownPipeline ?? this.parent!.pipeline;
+  }
+
+  /**
+   * Effective configuration
+   */
+  private get config(): StylerConfig {
+    return this.parent ? { ...this.parent.config, ...this.overrides } : this.ownConfig;
   }
 
   /**
-   * Create child logger with namespace
+   * Create child logger with namespace and persistent bindings
    */
-  child(namespace: string, overrides?: Partial<StylerConfig>): Logger {
+  child(namespace: string, options: ChildLoggerOptions = {}): Logger {
+    const { bindings, ...overrides } = options;
     const childNamespace = this.namespace ? `${this.namespace}:${namespace}` : namespace;
 
-    return new Logger(
-      { ...this.config, ...overrides },
-      childNamespace,
-    );
+    const child = new Logger({ ...this.config, plugins: [] }, childNamespace);
+    child.parent = this;
+    child.overrides = overrides;
+    child.bindings = { ...this.bindings, ...bindings };
+    child.sinks = this.sinks;
+    child.lineTimes = this.lineTimes;
+    child.history = this.history;
+    child.floodGuard = this.floodGuard;
+    child.spanRecorder = this.spanRecorder;
+
+    if (overrides.plugins) {
+      child.pipeline.addAll(overrides.plugins, child.config);
+    } else {
+      // Share the parent's already-initialized plugins instead of re-initializing them
+      child.ownPipeline = undefined;
+    }
+    child.config.plugins.forEach((plugin) => child.applyExtensions(plugin));
+    this.children.add(new WeakRef(child));
+
+    return child;
+  }
+
+  /**
+   * Full namespace, or "" for the root logger
+   */
+  getNamespace(): string {
+    return this.namespace ?? "";
+  }
+
+  /**
+   * Forget a child that was shut down, here and in the shared registry
+   */
+  private detach(child: Logger): void {
+    for (const ref of this.children) {
+      if (ref.deref() === child) this.children.delete(ref);
+    }
+    if (Logger.registry.get(child.getNamespace()) === child) {
+      Logger.registry.delete(child.getNamespace());
+    }
+  }
+
+  /**
+   * Live child loggers
+   */
+  getChildren(): Logger[] {
+    const children: Logger[] = [];
+    for (const ref of this.children) {
+      const child = ref.deref();
+      if (child) children.push(child);
+      else this.children.delete(ref);
+    }
+    return children;
+  }
+
+  /**
+   * Effective minimum level after the namespace filter, or "off" when the namespace is excluded
+   */
+  getLevel(): LogLevel | "off" {
+    const config = this.config;
+    const filter = config.namespaceFilter
+      ? NamespaceFilter.parse(config.namespaceFilter)
+      : NamespaceFilter.fromEnv();
+    const level = filter?.levelFor(this.namespace);
+    return level === null ? "off" : level ?? config.logLevel;
+  }
+
+  /**
+   * Set the level of namespaces matching a pattern (e.g. "app:db*") by adding a rule to the
+   * root logger's namespace filter; "off" silences them. Returns a function that removes the
+   * rule again, which runs automatically after revertAfterMs when given.
+   */
+  setNamespaceLevel(
+    pattern: string,
+    level: LogLevel | "off",
+    revertAfterMs?: number,
+  ): () => void {
+    if (level !== "off" && !levels.has(level)) {
+      throw new Error(`"${level}" is not a level`);
+    }
+
+    const root = this.root;
+    const rule = level === "off" ? `-${pattern}` : `${pattern}=${level}`;
+    const { spec, replaced } = NamespaceFilter.replaceRule(root.namespaceSpec(), pattern, rule);
+    root.configure({ namespaceFilter: spec || undefined });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let reverted = false;
+    const revert = () => {
+      if (reverted) return;
+      reverted = true;
+      if (timer !== undefined) {
+        clearTimeout(timer);
+        root.revertTimers.delete(timer);
+      }
+
+      // Leave the rule alone if something else has replaced it since
+      const current = root.namespaceSpec();
+      if (!current.split(/[\s,]+/).includes(rule)) return;
+      const restored = NamespaceFilter.replaceRule(current, pattern, replaced).spec;
+      root.configure({ namespaceFilter: restored || undefined });
+    };
+
+    if (revertAfterMs !== undefined) {
+      timer = setTimeout(revert, revertAfterMs);
+      // A pending revert must not keep the process alive
+      Deno.unrefTimer(Number(timer));
+      root.revertTimers.add(timer);
+    }
+
+    return revert;
+  }
+
+  private get root(): Logger {
+    return this.parent ? this.parent.root : this;
+  }
+
+  /**
+   * Namespace filter spec in effect: configured, else GENESIS_LOG
+   */
+  private namespaceSpec(): string {
+    return this.config.namespaceFilter ?? NamespaceFilter.fromEnv()?.spec ?? "";
   }
 
   /**
    * Register plugin
    */
-  use(plugin: any): void {
-    this.config.plugins.push(plugin);
-    plugin.onInit?.(this.config);
+  use<P extends Plugin>(plugin: P): this & PluginMethods<P> {
+    const methods = this.resolveExtensions(plugin);
+    if (this.parent) {
+      // Keep the plugin local: run it after the parent's plugins instead of adding it to them
+      const parent = this.parent;
+      this.ownPipeline ??= new PluginPipeline(() => parent.pipeline);
+      this.overrides = { ...this.overrides, plugins: [...this.config.plugins, plugin] };
+    } else {
+      this.ownConfig = { ...this.ownConfig, plugins: [...this.ownConfig.plugins, plugin] };
+    }
+    this.pipeline.add(plugin, this.config);
+    this.defineExtensions(methods);
+    return this as this & PluginMethods<P>;
+  }
+
+  /**
+   * Attach helper methods a plugin provides through extendMethods
+   */
+  private applyExtensions(plugin: Plugin): void {
+    this.defineExtensions(this.resolveExtensions(plugin));
+  }
+
+  private resolveExtensions(plugin: Plugin): Record<string, PluginMethod> {
+    const methods = plugin.extendMethods?.(this) ?? {};
+    for (const name of Object.keys(methods)) {
+      if (name in this && !this.extensions.has(name)) {
+        throw new Error(`Plugin "${plugin.name}" cannot override Logger method "${name}"`);
+      }
+    }
+    return methods;
+  }
+
+  private defineExtensions(methods: Record<string, PluginMethod>): void {
+    for (const [name, method] of Object.entries(methods)) {
+      Object.defineProperty(this, name, { value: method, configurable: true, writable: true });
+      this.extensions.add(name);
+    }
+  }
+
+  /**
+   * Run fn with context stamped on every entry logged inside its async call tree
+   */
+  runWithContext<T>(context: LogContext, fn: () => T): T {
+    return runWithContext(context, fn);
+  }
+
+  /**
+   * Get the context bound to the current async call tree
+   */
+  getContext(): LogContext | undefined {
+    return getContext();
   }
 
   /**
-   * Configure logger
+   * Configure logger; throws ConfigValidationError for unknown levels or flood control that
+   * combines rateLimit and dedupe
    */
   configure(config: Partial<StylerConfig>): void {
-    this.config = { ...this.config, ...config };
+    validateLoggerConfig(config);
+    if (this.parent) {
+      this.overrides = { ...this.overrides, ...config };
+      return;
+    }
+
+    this.ownConfig = { ...this.ownConfig, ...config };
+
+    // Close sinks for outputs that were removed; let them drain in the background
+    if (config.outputs) {
+      for (const [output, sink] of this.sinks) {
+        if (config.outputs.includes(output)) continue;
+        this.sinks.delete(output);
+        sink.close().catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Apply a reloaded configuration. Options it omits return to their values before the
+   * first reload; children see the changes through their parent's live config. Logs a
+   * "config reloaded" entry describing what changed, whatever the new logLevel, and returns
+   * the changes.
+   */
+  reloadConfig(config: Partial<StylerConfig>, source?: string): Record<string, ConfigChange> {
+    const current = this.config;
+    this.reloadBase ??= Object.fromEntries(RELOADABLE_KEYS.map((key) => [key, current[key]]));
+
+    const target: Partial<StylerConfig> = { ...this.reloadBase, ...config };
+    const updates: Partial<StylerConfig> = {};
+    const changes: Record<string, ConfigChange> = {};
+
+    for (const key of RELOADABLE_KEYS) {
+      const from = describeOption(key, current[key]);
+      const to = describeOption(key, target[key]);
+      if (safeStringify(from) === safeStringify(to)) continue;
+
+      (updates as Record<string, unknown>)[key] = target[key];
+      changes[key] = { from, to };
+    }
+
+    const ignored = (Object.keys(config) as Array<keyof StylerConfig>)
+      .filter((key) => !RELOADABLE_KEYS.includes(key));
+
+    if (Object.keys(changes).length > 0) {
+      this.configure(updates);
+      // Always recorded, so a reload that raises logLevel still leaves a trace
+      this._log(
+        "info",
+        "config reloaded",
+        {
+          source,
+          changed: Object.keys(changes),
+          changes,
+          ...(ignored.length > 0 ? { ignored } : {}),
+        },
+        undefined,
+        {},
+        true,
+      );
+    }
+
+    return changes;
+  }
+
+  /**
+   * Reload a JSON/JSONC config file whenever it changes (and on SIGHUP if enabled).
+   * Watchers are closed on shutdown.
+   */
+  watchConfig(path: string, options: ConfigWatchOptions = {}): ConfigWatcher {
+    const watcher = new ConfigWatcher(this, path, options).start();
+    this.watchers.add(watcher);
+    return watcher;
+  }
+
+  /**
+   * Start the token-protected admin server for this logger and its children (see core/admin.ts).
+   * It is closed on shutdown.
+   */
+  serveAdmin(options: AdminServerOptions): AdminServer {
+    if (this.adminServer) throw new Error("Admin server is already running");
+    this.adminServer = new AdminServer(this, options).start();
+    return this.adminServer;
   }
 
   /**
    * Log methods
    */
-  debug(message: string, metadata?: Record<string, any>): void {
+  debug(message: LogMessage, metadata?: LogMetadata): void {
     this._log("debug", message, metadata);
   }
 
-  info(message: string, metadata?: Record<string, any>): void {
+  info(message: LogMessage, metadata?: LogMetadata): void {
     this._log("info", message, metadata);
   }
 
-  success(message: string, metadata?: Record<string, any>): void {
+  success(message: LogMessage, metadata?: LogMetadata): void {
     this._log("success", message, metadata);
   }
 
-  warning(message: string, metadata?: Record<string, any>): void {
+  warning(message: LogMessage, metadata?: LogMetadata): void {
     this._log("warning", message, metadata);
   }
 
-  error(message: string, metadata?: Record<string, any>): void {
+  error(message: LogMessage, metadata?: LogMetadata): void {
     this._log("error", message, metadata);
   }
 
-  critical(message: string, metadata?: Record<string, any>): void {
+  critical(message: LogMessage, metadata?: LogMetadata): void {
     this._log("critical", message, metadata);
   }
 
+  /**
+   * Log at any registered level, including custom ones; fields set the entry's category or
+   * console style directly
+   */
+  log(level: LogLevel, message: LogMessage, metadata?: LogMetadata, fields?: EntryFields): void {
+    if (!levels.has(level)) {
+      throw new Error(`Unknown log level "${level}"`);
+    }
+    this._log(level, message, metadata, undefined, fields);
+  }
+
+  // ================================================================================
+  // Timers & Spans
+  // ================================================================================
+
+  /**
+   * Start a timer; end() logs the elapsed time and returns it in milliseconds
+   */
+  time(label: string, metadata?: Record<string, unknown>): Timer {
+    const span = startSpan(label);
+    let durationMs: number | undefined;
+
+    return {
+      label,
+      elapsed: () => durationMs ?? performance.now() - span.start,
+      end: (extra) => {
+        if (durationMs !== undefined) return durationMs;
+        durationMs = performance.now() - span.start;
+        this.spanRecorder.record(span, durationMs, false);
+        this._log(
+          "info",
+          `${label} took ${Formatter.duration(durationMs)}`,
+          { ...metadata, ...extra, durationMs: roundDuration(durationMs) },
+          { ...span, durationMs: roundDuration(durationMs) },
+        );
+        return durationMs;
+      },
+    };
+  }
+
+  /**
+   * Run fn inside a named span, logging its start, completion or failure and duration.
+   * Entries logged inside fn record the span and its parent span.
+   */
+  span<T>(name: string, fn: (span: SpanInfo) => T, metadata?: Record<string, unknown>): T {
+    const span = startSpan(name);
+
+    const finish = (failed: boolean, error?: unknown) => {
+      const durationMs = performance.now() - span.start;
+      this.spanRecorder.record(span, durationMs, failed);
+
+      const info = { ...span, durationMs: roundDuration(durationMs) };
+      const fields = { ...metadata, durationMs: info.durationMs };
+      if (failed) {
+        const message = `${name} failed after ${Formatter.duration(durationMs)}`;
+        this._log("error", message, { ...fields, error }, info);
+      } else {
+        this._log("info", `${name} completed in ${Formatter.duration(durationMs)}`, fields, info);
+      }
+    };
+
+    return runInSpan(span, () => {
+      this._log("debug", `${name} started`, metadata);
+
+      let result: T;
+      try {
+        result = fn(spanInfo(span));
+      } catch (error) {
+        finish(true, error);
+        throw error;
+      }
+
+      if (result instanceof Promise) {
+        return result.then(
+          (value) => {
+            finish(false);
+            return value;
+          },
+          (error) => {
+            finish(true, error);
+            throw error;
+          },
+        ) as T;
+      }
+
+      finish(false);
+      return result;
+    });
+  }
+
   /**
    * Internal logging method
    */
-  private _log(level: LogLevel, message: string, metadata?: Record<string, any>): void {
-    // Check log level
-    if (!this.shouldLog(level)) return;
+  private _log(
+    level: LogLevel,
+    lazyMessage: LogMessage,
+    lazyMetadata?: LogMetadata,
+    span: ActiveSpan | undefined = activeSpan(),
+    entryFields: EntryFields = {},
+    ignoreThreshold = false, // Audit entries bypass logLevel and the namespace filter
+  ): void {
+    // Check log level before evaluating thunks
+    if (!ignoreThreshold && !this.isLevelEnabled(level)) return;
+
+    const message = evaluate(lazyMessage, (reason) => `[message thunk failed: ${reason}]`);
+    const metadata = evaluate(lazyMetadata, (reason) => ({ metadataError: reason }));
+
+    // Trace fields are hoisted onto the entry; the rest of the context is kept as bindings
+    const { traceId, spanId, traceFlags, ...context } = getContext() ?? {};
+    const hasContext = Object.keys(context).length > 0;
 
-    const entry: LogEntry = {
-      timestamp: new Date(),
+    // Errors passed as the message or metadata become the entry's structured error
+    const error = isError(metadata) ? metadata : isError(message) ? message : undefined;
+    const fields = isError(metadata) ? undefined : metadata;
+
+    const hrTime = performance.timeOrigin + performance.now();
+    let entry: LogEntry | null = {
+      timestamp: new Date(hrTime),
+      hrTime,
       level,
-      message: this.namespace ? `[${this.namespace}] ${message}` : message,
-      metadata,
+      message: isError(message) ? message.message : message,
+      metadata: this.bindMetadata(serializeErrorFields(fields)),
+      error: error ? serializeError(error) : undefined,
       namespace: this.namespace,
+      requestId: context.requestId,
+      category: entryFields.category ?? context.category,
+      context: hasContext ? context : undefined,
+      span: spanInfo(span),
+      traceId: span?.traceId ?? traceId,
+      spanId: span?.id ?? spanId,
+      traceFlags: span?.traceFlags ?? traceFlags,
+      style: entryFields.style,
     };
 
+    // Redact secrets before any plugin, output or the history sees the entry
+    const redaction = this.config.redaction;
+    if (redaction) {
+      entry = Redactor.for(redaction).redact(entry);
+    }
+
+    // Let plugins enrich, rewrite or drop the entry
+    entry = this.pipeline.transform(entry);
+    if (!entry) return;
+
+    // Suppress floods; summaries of collapsed bursts are delivered later
+    const floodControl = this.config.floodControl;
+    if (floodControl && !this.floodGuard.admit(entry, floodControl, (e) => this.deliver(e))) {
+      return;
+    }
+
+    this.deliver(entry);
+  }
+
+  /**
+   * Record an accepted entry and hand it to plugins and outputs
+   */
+  private deliver(entry: LogEntry): void {
     // Store in history
-    if (this.config.enableHistory) {
+    const config = this.config;
+    if (config.enableHistory) {
+      // The shared buffer is sized by the root so children cannot shrink it for the tree
+      this.history.resize(this.root.config.maxHistorySize);
       this.history.push(entry);
-      if (this.history.length > this.config.maxHistorySize) {
-        this.history.shift();
-      }
     }
 
     // Execute plugins
-    this.config.plugins.forEach((plugin) => {
-      plugin.onLog?.(entry);
+    this.pipeline.dispatch(entry);
+
+    // Route to configured outputs
+    this.writeOutputs(entry);
+  }
+
+  /**
+   * Merge bindings into metadata; explicit metadata wins
+   */
+  private bindMetadata(metadata?: Record<string, unknown>): Record<string, unknown> | undefined {
+    if (Object.keys(this.bindings).length === 0) return metadata;
+    return { ...this.bindings, ...metadata };
+  }
+
+  /**
+   * Hand entry to every output whose minLevel accepts it
+   */
+  private writeOutputs(entry: LogEntry): void {
+    for (const sink of this.getSinks()) {
+      const minLevel = sink.output.minLevel;
+      if (minLevel && !this.shouldLog(entry.level, minLevel)) continue;
+
+      try {
+        sink.write(entry, (entry) => this.render(entry, sink.output));
+      } catch (error) {
+        console.error(
+          `[Logger] Output "${sink.output.type}" failed:`,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+  }
+
+  /**
+   * Lazily create sinks for the configured outputs
+   */
+  private getSinks(): OutputSink[] {
+    return this.config.outputs.map((output) => {
+      let sink = this.sinks.get(output);
+      if (!sink) {
+        sink = createOutputSink(output);
+        this.sinks.set(output, sink);
+      }
+      return sink;
     });
+  }
+
+  /**
+   * Whether an entry at this level would reach the history, a plugin or an output.
+   * Use it to skip building expensive diagnostics.
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    if (!this.isEnabled(level)) return false;
 
-    // Render to console
-    this.render(entry);
+    const config = this.config;
+    if (config.enableHistory || config.plugins.length > 0) return true;
+    return config.outputs.some((output) =>
+      !output.minLevel || this.shouldLog(level, output.minLevel)
+    );
+  }
+
+  /**
+   * Check level against the namespace filter (config, then GENESIS_LOG) and logLevel
+   */
+  private isEnabled(level: LogLevel): boolean {
+    const threshold = this.getLevel();
+    return threshold !== "off" && this.shouldLog(level, threshold);
   }
 
   /**
    * Check if should log based on level
    */
-  private shouldLog(level: LogLevel): boolean {
-    const levels: LogLevel[] = ["debug", "info", "success", "warning", "error", "critical"];
-    const currentLevelIndex = levels.indexOf(this.config.logLevel);
-    const messageLevelIndex = levels.indexOf(level);
-    return messageLevelIndex >= currentLevelIndex;
+  private shouldLog(level: LogLevel, threshold: LogLevel = this.config.logLevel): boolean {
+    return levels.isEnabled(level, threshold);
   }
 
   /**
-   * Render log entry
+   * Render log entry for a terminal output through the configured line template
    */
-  private render(entry: LogEntry): void {
-    const theme = this.config.theme;
+  private render(entry: LogEntry, output: LogOutput): string {
+    const config = this.config;
+    const theme = config.theme;
     const useColor = this.shouldUseColor();
     const useEmoji = this.shouldUseEmoji();
+    const compact = config.compact ?? false;
 
-    // Get color for level
-    const colorMap: Record<LogLevel, string> = {
-      debug: theme.colors.debug,
-      info: theme.colors.info,
-      success: theme.colors.success,
-      warning: theme.colors.warning,
-      error: theme.colors.error,
-      critical: theme.colors.critical,
-    };
-
-    const color = colorMap[entry.level];
+    const time = entry.hrTime ?? entry.timestamp.getTime();
+    const previous = this.lineTimes.get(output);
+    this.lineTimes.set(output, time);
 
-    // Get symbol for level
-    const symbol = useEmoji ? theme.symbols[entry.level] : "";
+    // Entries that name a registered style keep their specialized layout, except in
+    // compact mode where every entry stays on one line. A style that cannot render the
+    // entry, e.g. after a plugin or redaction removed a field it reads, falls back to the
+    // default layout.
+    const style = entry.style && !compact ? getEntryStyle(entry.style) : undefined;
+    if (style) {
+      try {
+        const line = style(entry, { theme, color: useColor, emoji: useEmoji });
+        return useColor ? line : ColorSystem.stripAnsi(line);
+      } catch {
+        // Default layout below
+      }
+    }
 
-    // Format timestamp
-    const timestamp = Formatter.timestamp(entry.timestamp, this.config.timestampFormat);
-    const timestampStr = useColor
-      ? ColorSystem.colorize(`[${timestamp}]`, theme.colors.muted)
-      : `[${timestamp}]`;
+    const paint = (text: string, code: string) =>
+      useColor ? ColorSystem.colorize(text, code) : text;
+    return compileLineTemplate(config.lineTemplate ?? DEFAULT_LINE_TEMPLATE).render(entry, {
+      theme,
+      color: useColor,
+      emoji: useEmoji,
+      compact,
+      timestampFormat: config.timestampFormat,
+      dateFormat: config.dateFormat,
+      timeZone: config.timeZone,
+      locale: config.locale,
+      previous,
+      renderError: (error) => this.renderError(error, "  ", paint),
+    });
+  }
 
-    // Format message
-    const messageStr = useColor
-      ? ColorSystem.colorize(`${symbol} ${entry.message}`, color)
-      : `${symbol} ${entry.message}`;
+  /**
+   * Render a serialized error with its frames, properties, cause chain and aggregate members
+   */
+  private renderError(
+    error: SerializedError,
+    indent: string,
+    paint: (text: string, code: string) => string,
+  ): string[] {
+    const theme = this.config.theme;
+    const lines = [`${indent}${paint(`${error.name}: ${error.message}`, theme.colors.error)}`];
 
-    // Output
-    console.log(`${timestampStr} ${messageStr}`);
+    for (const frame of error.frames.slice(0, MAX_RENDERED_FRAMES)) {
+      lines.push(`${indent}  ${paint(frame.raw, theme.colors.muted)}`);
+    }
+    if (error.frames.length > MAX_RENDERED_FRAMES) {
+      const hidden = error.frames.length - MAX_RENDERED_FRAMES;
+      lines.push(`${indent}  ${paint(`... ${hidden} more`, theme.colors.muted)}`);
+    }
 
-    // Output metadata if present
-    if (entry.metadata && Object.keys(entry.metadata).length > 0) {
-      const metadataStr = Formatter.json(entry.metadata, 2, useColor);
-      const indented = metadataStr.split("\n").map((line) => "  " + line).join("\n");
-      console.log(indented);
+    if (error.properties) {
+      const propertiesStr = safeStringify(error.properties);
+      lines.push(`${indent}  ${paint(propertiesStr, theme.colors.muted)}`);
     }
+
+    const nested = (label: string, value: unknown, index?: number) => {
+      const heading = index === undefined ? label : `${label} [${index}]`;
+      if (isSerializedError(value)) {
+        lines.push(`${indent}${paint(`${heading}:`, theme.colors.warning)}`);
+        lines.push(...this.renderError(value, indent + "  ", paint));
+      } else {
+        lines.push(`${indent}${paint(`${heading}:`, theme.colors.warning)} ${String(value)}`);
+      }
+    };
+
+    if (error.cause !== undefined) nested("Caused by", error.cause);
+    error.errors?.forEach((member, index) => nested("Error", member, index));
+
+    return lines;
   }
 
   /**
@@ -180,58 +840,192 @@ export class Logger {
   }
 
   /**
-   * Get log history
+   * Get log history, optionally filtered, ordered and paginated. The history is shared by
+   * the whole logger tree; filter by `namespace` for one logger's entries.
    */
-  getHistory(filter?: {
-    level?: LogLevel;
-    namespace?: string;
-    since?: Date;
-  }): LogEntry[] {
-    let filtered = [...this.history];
+  getHistory(query?: HistoryQuery | string): LogEntry[] {
+    return this.history.query(query);
+  }
 
-    if (filter) {
-      if (filter.level) {
-        filtered = filtered.filter((log) => log.level === filter.level);
-      }
-      if (filter.namespace) {
-        filtered = filtered.filter((log) => log.namespace === filter.namespace);
-      }
-      if (filter.since) {
-        filtered = filtered.filter((log) => log.timestamp >= filter.since!);
-      }
-    }
+  /**
+   * Get one page of matching history entries with the total match count
+   */
+  queryHistory(query: HistoryQuery | string = {}): HistoryPage {
+    return this.history.page(query);
+  }
 
-    return filtered;
+  /**
+   * Count matching history entries
+   */
+  countHistory(query: HistoryQuery | string = {}): number {
+    return this.history.count(query);
   }
 
   /**
-   * Clear history
+   * Clear history for the whole logger tree
    */
   clearHistory(): void {
-    this.history = [];
+    this.history.clear();
   }
 
   /**
-   * Export logs to file
+   * Export logs to file, optionally only the entries matching a query
    */
-  async exportLogs(filename: string): Promise<void> {
+  async exportLogs(filename: string, query?: HistoryQuery | string): Promise<void> {
+    const entries = query === undefined ? this.history.toArray() : this.history.query(query);
     const exportData = {
       exportTime: new Date().toISOString(),
       namespace: this.namespace,
-      logs: this.history,
+      logs: entries.map((entry) => toSerializable(entry)),
     };
 
-    const content = JSON.stringify(exportData, null, 2);
+    const content = safeStringify(exportData, 2, NO_LIMITS);
     await Deno.writeTextFile(filename, content);
   }
 
   /**
-   * Shutdown logger
+   * Get counts of sampled, rate-limited and deduplicated entries
+   */
+  getFloodStats(): FloodStats {
+    return this.floodGuard.getStats();
+  }
+
+  /**
+   * Get timings of finished spans and timers, slowest first within each level of the tree
+   */
+  getSpanStats(): SpanStats[] {
+    return this.spanRecorder.tree();
+  }
+
+  /**
+   * Print the slowest spans as an indented tree table
+   */
+  private renderSpanSummary(options: SpanSummaryOptions): void {
+    const rows = this.spanRecorder.tree(options.limit ?? 10).map((stats) => ({
+      span: `${"  ".repeat(stats.path.length - 1)}${stats.path.at(-1)}`,
+      count: stats.count,
+      errors: stats.errors,
+      total: Formatter.duration(stats.totalMs),
+      avg: Formatter.duration(stats.totalMs / stats.count),
+      max: Formatter.duration(stats.maxMs),
+    }));
+
+    TableRenderer.render(rows, [
+      { key: "span", label: "Span" },
+      { key: "count", label: "Count", align: "right" },
+      { key: "errors", label: "Errors", align: "right" },
+      { key: "total", label: "Total", align: "right" },
+      { key: "avg", label: "Avg", align: "right" },
+      { key: "max", label: "Max", align: "right" },
+    ], { theme: this.config.theme, colorize: this.shouldUseColor(), minWidth: 3 });
+  }
+
+  /**
+   * Get health of registered plugins
+   */
+  getPluginStatus(): PluginStatus[] {
+    return this.pipeline.getStatus();
+  }
+
+  /**
+   * Wait for pending plugin hooks and output writes
+   */
+  async flush(): Promise<void> {
+    await this.pipeline.flush();
+    await Promise.all([...this.sinks.values()].map((sink) => sink.flush()));
+  }
+
+  /**
+   * Shutdown logger. A child only closes what it owns (its watchers, admin server and own
+   * plugins) and detaches from its parent; the outputs and plugins it shares keep running.
    */
   async shutdown(): Promise<void> {
-    // Execute shutdown hooks for plugins
-    await Promise.all(
-      this.config.plugins.map((plugin) => plugin.onShutdown?.()),
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers.clear();
+
+    if (this.parent) {
+      await this.adminServer?.close();
+      this.adminServer = undefined;
+      await this.ownPipeline?.shutdown();
+      this.parent.detach(this);
+      return;
+    }
+
+    this.revertTimers.forEach((timer) => clearTimeout(timer));
+    this.revertTimers.clear();
+    await this.adminServer?.close();
+    this.adminServer = undefined;
+
+    // Summarize bursts still in progress
+    this.floodGuard.flush();
+
+    if (this.config.spanSummary && this.spanRecorder.size > 0) {
+      this.renderSpanSummary(this.config.spanSummary);
+    }
+
+    // Drain plugin queues, then execute shutdown hooks
+    await this.pipeline.shutdown();
+
+    // Drain and close outputs
+    await Promise.all([...this.sinks.values()].map((sink) => sink.close()));
+    this.sinks.clear();
+  }
+}
+
+/**
+ * Loggable form of a config option: themes by name, outputs without callbacks
+ */
+function describeOption(key: keyof StylerConfig, value: unknown): unknown {
+  if (value === undefined) return null;
+  if (key === "theme") return (value as StylerConfig["theme"]).name;
+  if (key === "outputs") {
+    return (value as LogOutput[]).map(({ type, minLevel, path, url }) =>
+      Object.fromEntries(
+        Object.entries({ type, minLevel, path, url }).filter(([, item]) => item !== undefined),
+      )
     );
   }
+  return toSerializable(value);
+}
+
+/**
+ * Resolve a lazy message or metadata argument; a throwing thunk must not crash the caller
+ */
+function evaluate<T>(value: T | (() => T), fallback: (reason: string) => T): T {
+  if (typeof value !== "function") return value;
+  try {
+    return (value as () => T)();
+  } catch (error) {
+    return fallback(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Span identity as recorded on entries, without the timing internals
+ */
+function spanInfo(span: ActiveSpan): SpanInfo;
+function spanInfo(span: ActiveSpan | undefined): SpanInfo | undefined;
+function spanInfo(span: ActiveSpan | undefined): SpanInfo | undefined {
+  if (!span) return undefined;
+  const { id, parentId, name, durationMs } = span;
+  return durationMs === undefined ? { id, parentId, name } : { id, parentId, name, durationMs };
+}
+
+function roundDuration(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
+
+/**
+ * Replace Error values in top-level metadata with their serialized form
+ */
+function serializeErrorFields(
+  metadata?: Record<string, unknown>,
+): Record<string, unknown> | undefined {
+  if (!metadata || !Object.values(metadata).some(isError)) return metadata;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    result[key] = isError(value) ? serializeError(value) : value;
+  }
+  return result;
 }
@@ -0,0 +1,230 @@
+// core/namespaces.ts
+// ================================================================================
+// 🏷️ Namespaces - DEBUG-style per-namespace level filtering and stable colors
+//
+//   GENESIS_LOG="app:db:*=debug,app:http=warning,-app:http:health,*=info"
+//
+// Each comma-separated rule is `pattern[=level]`; `*` matches any run of
+// characters, a leading `-` excludes matching namespaces entirely, and a rule
+// without a level enables every level. The most specific matching pattern
+// wins; exclusions beat inclusions of equal or lower specificity.
+// ================================================================================
+
+import { LogLevel } from "./config.ts";
+import { levels } from "./levels.ts";
+import { color256, colors, supports256Color } from "./colors.ts";
+
+export const NAMESPACE_ENV_VARIABLE = "GENESIS_LOG";
+
+interface NamespaceRule {
+  pattern: string;
+  regex: RegExp;
+  level?: LogLevel;
+  exclude: boolean;
+  specificity: number; // Number of literal (non-wildcard) characters
+}
+
+export class NamespaceFilter {
+  private static cache = new Map<string, NamespaceFilter>();
+  private static envFilter?: NamespaceFilter | null;
+
+  private constructor(readonly spec: string, private rules: NamespaceRule[]) {}
+
+  /**
+   * Parse a filter spec; results are cached per spec string
+   */
+  static parse(spec: string): NamespaceFilter {
+    const cached = NamespaceFilter.cache.get(spec);
+    if (cached) return cached;
+
+    const rules = spec
+      .split(/[\s,]+/)
+      .filter((item) => item.length > 0)
+      .map((item) => NamespaceFilter.parseRule(item));
+
+    const filter = new NamespaceFilter(spec, rules);
+    NamespaceFilter.cache.set(spec, filter);
+    return filter;
+  }
+
+  /**
+   * Spec with the rule for exactly `pattern` replaced by `rule`, or removed when rule is
+   * undefined. New rules go last so they win ties. Also returns the rule that was replaced.
+   */
+  static replaceRule(
+    spec: string,
+    pattern: string,
+    rule?: string,
+  ): { spec: string; replaced?: string } {
+    if (rule !== undefined) NamespaceFilter.parseRule(rule);
+
+    const items = spec.split(/[\s,]+/).filter((item) => item.length > 0);
+    const replaced = items.find((item) => NamespaceFilter.parseRule(item).pattern === pattern);
+    const kept = items.filter((item) => item !== replaced);
+
+    return { spec: [...kept, ...(rule ? [rule] : [])].join(","), replaced };
+  }
+
+  /**
+   * Filter from the GENESIS_LOG environment variable, read once. An invalid spec is
+   * reported once on stderr and ignored.
+   */
+  static fromEnv(): NamespaceFilter | undefined {
+    if (NamespaceFilter.envFilter === undefined) {
+      let spec: string | undefined;
+      try {
+        spec = Deno.env.get(NAMESPACE_ENV_VARIABLE);
+      } catch {
+        // No env permission: behave as if unset
+      }
+      NamespaceFilter.envFilter = null;
+      try {
+        if (spec) NamespaceFilter.envFilter = NamespaceFilter.parse(spec);
+      } catch (error) {
+        console.error(
+          `[Logger] Ignoring ${NAMESPACE_ENV_VARIABLE}:`,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+    return NamespaceFilter.envFilter ?? undefined;
+  }
+
+  /**
+   * Minimum level for a namespace: a level when a rule matches,
+   * null when the namespace is excluded, undefined when no rule applies
+   */
+  levelFor(namespace = ""): LogLevel | null | undefined {
+    let best: NamespaceRule | undefined;
+
+    for (const rule of this.rules) {
+      if (!rule.regex.test(namespace)) continue;
+      if (
+        !best ||
+        rule.specificity > best.specificity ||
+        (rule.specificity === best.specificity && (rule.exclude || !best.exclude))
+      ) {
+        best = rule;
+      }
+    }
+
+    if (!best) return undefined;
+    if (best.exclude) return null;
+    return best.level ?? levels.list()[0].name;
+  }
+
+  /**
+   * Whether an entry passes the filter, using fallback when no rule matches
+   */
+  isEnabled(namespace: string | undefined, level: LogLevel, fallback: LogLevel): boolean {
+    const threshold = this.levelFor(namespace);
+    if (threshold === null) return false;
+    return levels.isEnabled(level, threshold ?? fallback);
+  }
+
+  private static parseRule(item: string): NamespaceRule {
+    const exclude = item.startsWith("-");
+    const body = exclude ? item.slice(1) : item;
+    const [pattern, level, ...rest] = body.split("=");
+
+    if (!pattern || rest.length > 0) {
+      throw new Error(`Invalid namespace rule "${item}"`);
+    }
+    if (level !== undefined) {
+      if (exclude) {
+        throw new Error(`Namespace exclusion "${item}" cannot set a level`);
+      }
+      if (!levels.has(level)) {
+        throw new Error(`Namespace rule "${item}": "${level}" is not a level`);
+      }
+    }
+
+    return {
+      pattern,
+      regex: namespacePattern(pattern),
+      level,
+      exclude,
+      specificity: pattern.replaceAll("*", "").length,
+    };
+  }
+}
+
+/**
+ * Compile a namespace glob, where `*` matches any run of characters, to an anchored RegExp
+ */
+export function namespacePattern(glob: string): RegExp {
+  const source = glob
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+// ================================================================================
+// Namespace Colors
+// ================================================================================
+
+// 256-color codes that read well on both dark and light backgrounds
+const NAMESPACE_COLORS_256 = [
+  26,
+  32,
+  38,
+  41,
+  44,
+  62,
+  68,
+  74,
+  77,
+  80,
+  98,
+  112,
+  128,
+  134,
+  148,
+  161,
+  166,
+  170,
+  172,
+  178,
+  184,
+  197,
+  202,
+  206,
+  208,
+  214,
+  220,
+];
+
+const NAMESPACE_COLORS_BASIC = [
+  colors.cyan,
+  colors.green,
+  colors.yellow,
+  colors.blue,
+  colors.magenta,
+  colors.brightCyan,
+  colors.brightGreen,
+  colors.brightMagenta,
+];
+
+const namespaceColorCache = new Map<string, string>();
+
+/**
+ * Stable color for a namespace, so interleaved namespaces are easy to tell apart
+ */
+export function namespaceColor(namespace: string): string {
+  const cached = namespaceColorCache.get(namespace);
+  if (cached) return cached;
+
+  let hash = 0;
+  for (let i = 0; i < namespace.length; i++) {
+    hash = ((hash << 5) - hash + namespace.charCodeAt(i)) | 0;
+  }
+  hash = Math.abs(hash);
+
+  const color = supports256Color()
+    ? color256(NAMESPACE_COLORS_256[hash % NAMESPACE_COLORS_256.length])
+    : NAMESPACE_COLORS_BASIC[hash % NAMESPACE_COLORS_BASIC.length];
+
+  namespaceColorCache.set(namespace, color);
+  return color;
+}
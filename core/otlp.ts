@@ -0,0 +1,205 @@
+// core/otlp.ts
+// ================================================================================
+// 📡 OTLP Exporter - Ship log batches to OpenTelemetry collectors
+// Encodes entries as OTLP/HTTP JSON (ExportLogsServiceRequest) and reuses
+// RemoteLogger for batching, retries and the circuit breaker
+// ================================================================================
+
+import { LogEntry } from "./config.ts";
+import { levels } from "./levels.ts";
+import { RemoteLogger, RemoteLoggerConfig } from "./remote-logger.ts";
+import { toSerializable } from "./serializer.ts";
+
+export interface OtlpExporterOptions {
+  endpoint: string; // OTLP/HTTP logs URL, e.g. http://localhost:4318/v1/logs
+  headers?: Record<string, string>;
+  serviceName?: string; // Resource attribute service.name
+  resourceAttributes?: Record<string, unknown>; // e.g. { "deployment.environment": "prod" }
+  scopeName?: string; // Instrumentation scope, defaults to "genesis-trace"
+  scopeVersion?: string;
+  timeout?: number;
+  retryAttempts?: number;
+  retryDelay?: number;
+}
+
+/**
+ * OTLP AnyValue
+ */
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } }
+  | { kvlistValue: { values: OtlpKeyValue[] } }
+  | Record<string, never>;
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: OtlpAnyValue;
+  attributes: OtlpKeyValue[];
+  traceId?: string;
+  spanId?: string;
+  flags?: number;
+}
+
+export interface OtlpLogsPayload {
+  resourceLogs: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeLogs: Array<{
+      scope: { name: string; version?: string };
+      logRecords: OtlpLogRecord[];
+    }>;
+  }>;
+}
+
+const DEFAULT_SCOPE_NAME = "genesis-trace";
+
+// OpenTelemetry severity ranges: TRACE 1-4, DEBUG 5-8, INFO 9-12, WARN 13-16, ERROR 17-20, FATAL 21-24
+const SEVERITY_BASES = [1, 5, 9, 13, 17, 21];
+
+/**
+ * Map a level onto the OpenTelemetry severity number scale using its registry severity
+ * (debug 10 → DEBUG, info 20 → INFO, warning 30 → WARN, error 40 → ERROR, critical 50 → FATAL)
+ */
+export function otlpSeverity(level: string): number {
+  const severity = levels.has(level) ? levels.severity(level) : 20;
+  const band = Math.min(Math.max(Math.floor(severity / 10), 0), SEVERITY_BASES.length - 1);
+  const offset = Math.min(Math.max(Math.floor((severity - band * 10) / 2.5), 0), 3);
+  return SEVERITY_BASES[band] + offset;
+}
+
+/**
+ * Encode a batch as an OTLP/HTTP JSON ExportLogsServiceRequest
+ */
+export function toOtlpLogs(
+  logs: LogEntry[],
+  options: Partial<OtlpExporterOptions> = {},
+): OtlpLogsPayload {
+  const resource = {
+    "service.name": options.serviceName ?? "unknown_service",
+    ...options.resourceAttributes,
+  };
+  const observed = toUnixNano(new Date());
+
+  return {
+    resourceLogs: [{
+      resource: { attributes: toKeyValues(resource) },
+      scopeLogs: [{
+        scope: {
+          name: options.scopeName ?? DEFAULT_SCOPE_NAME,
+          ...(options.scopeVersion ? { version: options.scopeVersion } : {}),
+        },
+        logRecords: logs.map((entry) => toLogRecord(entry, observed)),
+      }],
+    }],
+  };
+}
+
+/**
+ * RemoteLogger configuration that posts OTLP/HTTP JSON, for `{ type: "remote", remote: ... }` outputs
+ */
+export function otlpRemoteConfig(
+  options: OtlpExporterOptions,
+  overrides: Partial<Omit<RemoteLoggerConfig, "destinations" | "transformPayload">> = {},
+): RemoteLoggerConfig {
+  return {
+    ...overrides,
+    destinations: [{
+      name: "otlp",
+      url: options.endpoint,
+      headers: options.headers,
+      timeout: options.timeout,
+      retryAttempts: options.retryAttempts,
+      retryDelay: options.retryDelay,
+    }],
+    transformPayload: (logs) => toOtlpLogs(logs, options),
+  };
+}
+
+/**
+ * Standalone exporter: a RemoteLogger that speaks OTLP
+ */
+export class OtlpLogExporter extends RemoteLogger {
+  constructor(
+    options: OtlpExporterOptions,
+    overrides: Partial<Omit<RemoteLoggerConfig, "destinations" | "transformPayload">> = {},
+  ) {
+    super(otlpRemoteConfig(options, overrides));
+  }
+}
+
+// ================================================================================
+// Encoding
+// ================================================================================
+
+function toLogRecord(entry: LogEntry, observedTimeUnixNano: string): OtlpLogRecord {
+  const attributes: Record<string, unknown> = {
+    ...(toSerializable(entry.context) as Record<string, unknown> | undefined),
+    ...(toSerializable(entry.metadata) as Record<string, unknown> | undefined),
+  };
+
+  if (entry.namespace) attributes["log.namespace"] = entry.namespace;
+  if (entry.category) attributes["log.category"] = entry.category;
+  if (entry.span) attributes["span.name"] = entry.span.name;
+  if (entry.error) {
+    attributes["exception.type"] = entry.error.name;
+    attributes["exception.message"] = entry.error.message;
+    if (entry.error.stack) attributes["exception.stacktrace"] = entry.error.stack;
+  }
+
+  const record: OtlpLogRecord = {
+    timeUnixNano: toUnixNano(entry.timestamp),
+    observedTimeUnixNano,
+    severityNumber: otlpSeverity(entry.level),
+    severityText: entry.level.toUpperCase(),
+    body: { stringValue: entry.message },
+    attributes: toKeyValues(attributes),
+  };
+
+  if (entry.traceId) record.traceId = entry.traceId;
+  if (entry.spanId) record.spanId = entry.spanId;
+  if (entry.traceFlags !== undefined) record.flags = entry.traceFlags & 0xff;
+
+  return record;
+}
+
+function toKeyValues(values: Record<string, unknown>): OtlpKeyValue[] {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/**
+ * Convert serializer output (plain JSON data) into an OTLP AnyValue
+ */
+function toAnyValue(value: unknown): OtlpAnyValue {
+  switch (typeof value) {
+    case "string":
+      return { stringValue: value };
+    case "boolean":
+      return { boolValue: value };
+    case "number":
+      return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+  if (typeof value === "object" && value !== null) {
+    return { kvlistValue: { values: toKeyValues(value as Record<string, unknown>) } };
+  }
+  return {};
+}
+
+function toUnixNano(date: Date): string {
+  return (BigInt(date.getTime()) * 1_000_000n).toString();
+}
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import type { LogEntry } from "./config.ts";
+import { OtlpLogExporter, OtlpLogsPayload } from "./otlp.ts";
+import { serializeError } from "./errors.ts";
+
+interface Collector {
+  endpoint: string;
+  requests: Array<{ headers: Headers; payload: OtlpLogsPayload }>;
+  received(count: number): Promise<void>; // Resolves once count requests have arrived
+  close(): Promise<void>;
+}
+
+/**
+ * Stand-in OTLP/HTTP collector on a free port; status picks the response per request
+ */
+function startCollector(status: (request: number) => number = () => 200): Collector {
+  const requests: Collector["requests"] = [];
+  const waiters: Array<{ count: number; resolve: () => void }> = [];
+
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async (req) => {
+    requests.push({ headers: req.headers, payload: await req.json() });
+    for (const waiter of waiters.filter((waiter) => requests.length >= waiter.count)) {
+      waiter.resolve();
+    }
+    return new Response(null, { status: status(requests.length) });
+  });
+
+  return {
+    endpoint: `http://127.0.0.1:${server.addr.port}/v1/logs`,
+    requests,
+    received: (count) =>
+      requests.length >= count
+        ? Promise.resolve()
+        : new Promise((resolve) => waiters.push({ count, resolve })),
+    close: () => server.shutdown(),
+  };
+}
+
+function entry(fields: Partial<LogEntry>): LogEntry {
+  return { timestamp: new Date(1_700_000_000_000), level: "info", message: "test", ...fields };
+}
+
+/**
+ * Run a test with console output from the exporter's retries and shutdown silenced
+ */
+async function quietly(fn: () => Promise<void>): Promise<void> {
+  const { log, warn } = console;
+  console.log = console.warn = () => {};
+  try {
+    await fn();
+  } finally {
+    Object.assign(console, { log, warn });
+  }
+}
+
+Deno.test("posts OTLP/HTTP JSON log records to the collector", async () => {
+  const collector = startCollector();
+  const exporter = new OtlpLogExporter({
+    endpoint: collector.endpoint,
+    headers: { "x-api-key": "k" },
+    serviceName: "checkout",
+    resourceAttributes: { "deployment.environment": "test" },
+    scopeVersion: "1.2.3",
+  });
+
+  await quietly(async () => {
+    exporter.log(entry({
+      level: "error",
+      message: "payment failed",
+      namespace: "app:pay",
+      metadata: { amount: 12.5, attempts: 2, retry: true, tags: ["a"] },
+      error: serializeError(new TypeError("declined")),
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      spanId: "00f067aa0ba902b7",
+      traceFlags: 1,
+    }));
+    await exporter.shutdown();
+  });
+  await collector.close();
+
+  assert.equal(collector.requests.length, 1);
+  const { headers, payload } = collector.requests[0];
+  assert.equal(headers.get("content-type"), "application/json");
+  assert.equal(headers.get("x-api-key"), "k");
+
+  const [resourceLogs] = payload.resourceLogs;
+  assert.deepEqual(resourceLogs.resource.attributes, [
+    { key: "service.name", value: { stringValue: "checkout" } },
+    { key: "deployment.environment", value: { stringValue: "test" } },
+  ]);
+  assert.deepEqual(resourceLogs.scopeLogs[0].scope, { name: "genesis-trace", version: "1.2.3" });
+
+  const [record] = resourceLogs.scopeLogs[0].logRecords;
+  assert.equal(record.timeUnixNano, "1700000000000000000");
+  assert.match(record.observedTimeUnixNano, /^\d+$/);
+  assert.equal(record.severityNumber, 17);
+  assert.equal(record.severityText, "ERROR");
+  assert.deepEqual(record.body, { stringValue: "payment failed" });
+  assert.equal(record.traceId, "4bf92f3577b34da6a3ce929d0e0e4736");
+  assert.equal(record.spanId, "00f067aa0ba902b7");
+  assert.equal(record.flags, 1);
+
+  const attributes = Object.fromEntries(record.attributes.map(({ key, value }) => [key, value]));
+  assert.deepEqual(attributes.amount, { doubleValue: 12.5 });
+  assert.deepEqual(attributes.attempts, { intValue: "2" });
+  assert.deepEqual(attributes.retry, { boolValue: true });
+  assert.deepEqual(attributes.tags, { arrayValue: { values: [{ stringValue: "a" }] } });
+  assert.deepEqual(attributes["log.namespace"], { stringValue: "app:pay" });
+  assert.deepEqual(attributes["exception.type"], { stringValue: "TypeError" });
+  assert.deepEqual(attributes["exception.message"], { stringValue: "declined" });
+});
+
+Deno.test("sends a request per batch", async () => {
+  const collector = startCollector();
+  const exporter = new OtlpLogExporter({ endpoint: collector.endpoint }, { batchSize: 2 });
+
+  await quietly(async () => {
+    for (const message of ["one", "two", "three"]) exporter.log(entry({ message }));
+    await collector.received(1); // The full batch is sent without waiting for a flush
+    await exporter.shutdown();
+  });
+  await collector.close();
+
+  const batches = collector.requests.map(({ payload }) =>
+    payload.resourceLogs[0].scopeLogs[0].logRecords.map((record) => record.body)
+  );
+  assert.deepEqual(batches, [
+    [{ stringValue: "one" }, { stringValue: "two" }],
+    [{ stringValue: "three" }],
+  ]);
+});
+
+Deno.test("retries a batch the collector rejected", async () => {
+  const collector = startCollector((request) => request === 1 ? 503 : 200);
+  const delivered: number[] = [];
+  const exporter = new OtlpLogExporter(
+    { endpoint: collector.endpoint, retryAttempts: 3, retryDelay: 1 },
+    { onSuccess: (_destination, count) => delivered.push(count) },
+  );
+
+  await quietly(async () => {
+    exporter.log(entry({ message: "retried" }));
+    await exporter.shutdown();
+  });
+  await collector.close();
+
+  assert.equal(collector.requests.length, 2);
+  const bodies = collector.requests.map(({ payload }) =>
+    payload.resourceLogs[0].scopeLogs[0].logRecords[0].body
+  );
+  assert.deepEqual(bodies, [{ stringValue: "retried" }, { stringValue: "retried" }]);
+  assert.deepEqual(delivered, [1]);
+});
+
+Deno.test("reports a batch as failed once retries run out", async () => {
+  const collector = startCollector(() => 500);
+  const errors: Error[] = [];
+  const exporter = new OtlpLogExporter(
+    { endpoint: collector.endpoint, retryAttempts: 2, retryDelay: 1 },
+    { onError: (error) => errors.push(error) },
+  );
+
+  await quietly(async () => {
+    exporter.log(entry({ message: "lost" }));
+    await exporter.shutdown();
+  });
+  await collector.close();
+
+  assert.equal(collector.requests.length, 2);
+  assert.equal(errors.length, 1);
+  assert.match(errors[0].message, /HTTP 500/);
+  assert.equal(exporter.getHealth().get("otlp").failedRequests, 1);
+});
@@ -0,0 +1,219 @@
+// core/outputs.ts
+// ================================================================================
+// 🚰 Output Sinks - Route log entries to console, stderr, files and remotes
+// Each configured LogOutput becomes one sink with its own formatter
+// ================================================================================
+
+import { LogEntry, LogOutput } from "./config.ts";
+import { RemoteLogger } from "./remote-logger.ts";
+import { getFormat } from "./formats.ts";
+import { safeStringify } from "./serializer.ts";
+
+/**
+ * Renders an entry for the terminal when an output has no formatter of its own
+ */
+export type EntryRenderer = (entry: LogEntry) => string;
+
+/**
+ * A destination that receives log entries accepted by its output's minLevel
+ */
+export interface OutputSink {
+  readonly output: LogOutput;
+  write(entry: LogEntry, pretty: EntryRenderer): void;
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Default line format for machine-readable sinks (NDJSON)
+ */
+export function jsonLine(entry: LogEntry): string {
+  return safeStringify(entry);
+}
+
+/**
+ * The output's formatter, else its named format; throws for unknown format names
+ */
+function outputFormatter(output: LogOutput): ((entry: LogEntry) => string) | undefined {
+  return output.formatter ?? (output.format ? getFormat(output.format).format : undefined);
+}
+
+// ================================================================================
+// Sink Implementations
+// ================================================================================
+
+/**
+ * Writes formatted entries to stdout or stderr
+ */
+export class ConsoleSink implements OutputSink {
+  private format?: (entry: LogEntry) => string;
+
+  constructor(readonly output: LogOutput) {
+    this.format = outputFormatter(output);
+  }
+
+  write(entry: LogEntry, pretty: EntryRenderer): void {
+    const line = (this.format ?? pretty)(entry);
+    if (this.output.type === "stderr") {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Appends formatted entries to a file, one line per entry, in order
+ */
+export class FileSink implements OutputSink {
+  private format: (entry: LogEntry) => string;
+  private pending: Promise<void>;
+
+  constructor(readonly output: LogOutput) {
+    if (!output.path) {
+      throw new Error('File output requires a "path"');
+    }
+    this.format = outputFormatter(output) ?? jsonLine;
+    this.pending = this.ensureDirectory(output.path);
+  }
+
+  write(entry: LogEntry): void {
+    const line = this.format(entry) + "\n";
+    this.pending = this.pending
+      .then(() => Deno.writeTextFile(this.output.path!, line, { append: true }))
+      .catch((error) => {
+        console.error(
+          `[Logger] Failed to write to ${this.output.path}:`,
+          error instanceof Error ? error.message : String(error),
+        );
+      });
+  }
+
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  close(): Promise<void> {
+    return this.flush();
+  }
+
+  private async ensureDirectory(path: string): Promise<void> {
+    const dir = path.split("/").slice(0, -1).join("/");
+    if (!dir) return;
+
+    try {
+      await Deno.mkdir(dir, { recursive: true });
+    } catch (error) {
+      if (!(error instanceof Deno.errors.AlreadyExists)) {
+        console.error(
+          `[Logger] Failed to create log directory ${dir}:`,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Batches entries to HTTP endpoints through RemoteLogger
+ */
+export class RemoteSink implements OutputSink {
+  private remote: RemoteLogger;
+
+  constructor(readonly output: LogOutput) {
+    const config = output.remote ?? {
+      destinations: output.url ? [{ name: "remote", url: output.url, apiKey: output.apiKey }] : [],
+    };
+
+    if (config.destinations.length === 0) {
+      throw new Error('Remote output requires a "url" or a "remote" configuration');
+    }
+
+    const formatter = output.formatter;
+    this.remote = new RemoteLogger({
+      // Level filtering already happened in the Logger
+      minLevel: "debug",
+      transformPayload: formatter ? (logs) => ({ logs: logs.map(formatter) }) : undefined,
+      format: output.format,
+      ...config,
+    });
+  }
+
+  write(entry: LogEntry): void {
+    this.remote.log(entry);
+  }
+
+  flush(): Promise<void> {
+    return this.remote.flush();
+  }
+
+  close(): Promise<void> {
+    return this.remote.shutdown();
+  }
+}
+
+/**
+ * Hands formatted entries to a user-supplied callback
+ */
+export class CustomSink implements OutputSink {
+  private format: (entry: LogEntry) => string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly output: LogOutput) {
+    if (!output.write) {
+      throw new Error('Custom output requires a "write" callback');
+    }
+    this.format = outputFormatter(output) ?? jsonLine;
+  }
+
+  write(entry: LogEntry): void {
+    const result = this.output.write!(this.format(entry), entry);
+    if (result instanceof Promise) {
+      this.pending = this.pending.then(() => result).catch((error) => {
+        console.error(
+          "[Logger] Custom output failed:",
+          error instanceof Error ? error.message : String(error),
+        );
+      });
+    }
+  }
+
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  close(): Promise<void> {
+    return this.flush();
+  }
+}
+
+// ================================================================================
+// Factory
+// ================================================================================
+
+/**
+ * Create the sink for an output
+ */
+export function createOutputSink(output: LogOutput): OutputSink {
+  switch (output.type) {
+    case "console":
+    case "stderr":
+      return new ConsoleSink(output);
+    case "file":
+      return new FileSink(output);
+    case "remote":
+      return new RemoteSink(output);
+    case "custom":
+      return new CustomSink(output);
+    default:
+      throw new Error(`Unknown output type: ${(output as LogOutput).type}`);
+  }
+}
@@ -0,0 +1,287 @@
+// core/plugin-pipeline.ts
+// ================================================================================
+// 🔌 Plugin Pipeline - Ordered, awaited and error-isolated plugin dispatch
+// Every plugin gets its own queue so its hooks run one at a time, in order;
+// plugins are ordered by dependencies first, then by priority
+// ================================================================================
+
+import { LogEntry, Plugin, StylerConfig } from "./config.ts";
+
+/**
+ * Health snapshot for a registered plugin
+ */
+export interface PluginStatus {
+  name: string;
+  version: string;
+  healthy: boolean;
+  pending: number; // Hooks queued or running
+  processed: number; // Hooks completed successfully
+  errors: number; // Hooks that threw or rejected
+  lastError?: string;
+  lastErrorAt?: Date;
+}
+
+interface PluginQueue {
+  plugin: Plugin;
+  tail: Promise<void>;
+  pending: number;
+  processed: number;
+  errors: number;
+  lastError?: string;
+  lastErrorAt?: Date;
+}
+
+export class PluginPipeline {
+  private queues = new Map<Plugin, PluginQueue>();
+  private ordered: PluginQueue[] = [];
+
+  /**
+   * A pipeline with a parent runs the parent's plugins first, then its own. The parent is
+   * looked up on every call, so it follows a parent logger that switches pipelines.
+   */
+  constructor(private parentPipeline?: () => PluginPipeline) {}
+
+  private get parent(): PluginPipeline | undefined {
+    return this.parentPipeline?.();
+  }
+
+  /**
+   * Register plugin and queue its onInit hook
+   */
+  add(plugin: Plugin, config: StylerConfig): void {
+    this.addAll([plugin], config);
+  }
+
+  /**
+   * Register plugins together so they may depend on each other
+   */
+  addAll(plugins: Plugin[], config: StylerConfig): void {
+    const added = plugins.filter((plugin, index) =>
+      !this.queues.has(plugin) && plugins.indexOf(plugin) === index
+    );
+    if (added.length === 0) return;
+
+    const candidates = [...this.queues.keys(), ...added];
+    const ordered = this.resolveOrder(candidates);
+
+    for (const plugin of added) {
+      this.queues.set(plugin, {
+        plugin,
+        tail: Promise.resolve(),
+        pending: 0,
+        processed: 0,
+        errors: 0,
+      });
+    }
+    this.ordered = ordered.map((plugin) => this.queues.get(plugin)!);
+
+    // Initialize in dependency order; a plugin's onInit waits for its dependencies'
+    for (const queue of this.ordered) {
+      const plugin = queue.plugin;
+      if (!added.includes(plugin)) continue;
+
+      const dependencies = this.ordered.filter((other) =>
+        plugin.dependencies?.includes(other.plugin.name) && other.pending > 0
+      );
+      if (dependencies.length > 0) {
+        queue.pending++;
+        queue.tail = Promise.all(dependencies.map((other) => other.tail)).then(() => {
+          queue.pending--;
+        });
+      }
+
+      if (plugin.onInit) {
+        this.enqueue(queue, () => plugin.onInit!(config));
+      }
+    }
+  }
+
+  /**
+   * Run filter and transform hooks in plugin order.
+   * Returns the (possibly replaced) entry, or null when a plugin drops it.
+   */
+  transform(entry: LogEntry): LogEntry | null {
+    let current = this.parent ? this.parent.transform(entry) : entry;
+    if (current === null) return null;
+
+    for (const queue of this.ordered) {
+      const plugin = queue.plugin;
+      if (!plugin.filter && !plugin.transform) continue;
+
+      try {
+        if (plugin.filter && !plugin.filter(current)) return null;
+
+        if (plugin.transform) {
+          const result = plugin.transform(current);
+          if (result === null) return null;
+          if (result) current = result;
+        }
+      } catch (error) {
+        // A failing transform leaves the entry as it was
+        this.recordError(queue, error);
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Queue onLog for every plugin. Idle plugins run synchronously; busy ones
+   * receive the entry after their previous hooks settle.
+   */
+  dispatch(entry: LogEntry): void {
+    this.parent?.dispatch(entry);
+    for (const queue of this.ordered) {
+      const plugin = queue.plugin;
+      if (plugin.onLog) {
+        this.enqueue(queue, () => plugin.onLog!(entry));
+      }
+    }
+  }
+
+  /**
+   * Resolve once every queued hook has settled
+   */
+  async flush(): Promise<void> {
+    // Hooks may log (and enqueue) while we wait, so drain until quiet
+    while ([...this.queues.values()].some((queue) => queue.pending > 0)) {
+      await Promise.all([...this.queues.values()].map((queue) => queue.tail));
+    }
+    await this.parent?.flush();
+  }
+
+  /**
+   * Drain queues, then run every onShutdown hook; a parent pipeline is shut down by its owner
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+
+    for (const queue of this.ordered) {
+      const plugin = queue.plugin;
+      if (plugin.onShutdown) {
+        this.enqueue(queue, () => plugin.onShutdown!());
+      }
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Per-plugin health, in pipeline order
+   */
+  getStatus(): PluginStatus[] {
+    const own = this.ordered.map((queue) => ({
+      name: queue.plugin.name,
+      version: queue.plugin.version,
+      healthy: queue.errors === 0,
+      pending: queue.pending,
+      processed: queue.processed,
+      errors: queue.errors,
+      lastError: queue.lastError,
+      lastErrorAt: queue.lastErrorAt,
+    }));
+    return [...(this.parent?.getStatus() ?? []), ...own];
+  }
+
+  /**
+   * Whether a plugin with this name runs in this pipeline or a parent
+   */
+  has(name: string): boolean {
+    return this.ordered.some((queue) => queue.plugin.name === name) ||
+      (this.parent?.has(name) ?? false);
+  }
+
+  // ================================================================================
+  // Ordering
+  // ================================================================================
+
+  /**
+   * Sort by priority (stable), then move dependencies ahead of their dependents
+   */
+  private resolveOrder(plugins: Plugin[]): Plugin[] {
+    const byName = new Map(plugins.map((plugin) => [plugin.name, plugin]));
+    const byPriority = [...plugins].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+    const ordered: Plugin[] = [];
+    const visiting = new Set<Plugin>();
+
+    const visit = (plugin: Plugin, path: string[]) => {
+      if (ordered.includes(plugin)) return;
+      if (visiting.has(plugin)) {
+        throw new Error(`Plugin dependency cycle: ${[...path, plugin.name].join(" → ")}`);
+      }
+      visiting.add(plugin);
+
+      for (const name of plugin.dependencies ?? []) {
+        const dependency = byName.get(name);
+        // Parent pipeline plugins always run first
+        if (!dependency && this.parent?.has(name)) continue;
+        if (!dependency) {
+          throw new Error(`Plugin "${plugin.name}" depends on "${name}", which is not registered`);
+        }
+        visit(dependency, [...path, plugin.name]);
+      }
+
+      visiting.delete(plugin);
+      ordered.push(plugin);
+    };
+
+    byPriority.forEach((plugin) => visit(plugin, []));
+    return ordered;
+  }
+
+  // ================================================================================
+  // Queue Management
+  // ================================================================================
+
+  private enqueue(queue: PluginQueue, hook: () => void | Promise<void>): void {
+    queue.pending++;
+
+    const run = (): Promise<void> | void => {
+      let result: void | Promise<void>;
+      try {
+        result = hook();
+      } catch (error) {
+        this.recordFailure(queue, error);
+        return;
+      }
+
+      if (result instanceof Promise) {
+        return result.then(
+          () => this.recordSuccess(queue),
+          (error) => this.recordFailure(queue, error),
+        );
+      }
+      this.recordSuccess(queue);
+    };
+
+    if (queue.pending === 1) {
+      // Nothing in flight: run now so synchronous plugins stay synchronous
+      const result = run();
+      if (result) queue.tail = result;
+    } else {
+      queue.tail = queue.tail.then(run);
+    }
+  }
+
+  private recordSuccess(queue: PluginQueue): void {
+    queue.pending--;
+    queue.processed++;
+  }
+
+  private recordFailure(queue: PluginQueue, error: unknown): void {
+    queue.pending--;
+    this.recordError(queue, error);
+  }
+
+  private recordError(queue: PluginQueue, error: unknown): void {
+    queue.errors++;
+    queue.lastError = error instanceof Error ? error.message : String(error);
+    queue.lastErrorAt = new Date();
+
+    // Report the first failure only; getPluginStatus() tracks the rest
+    if (queue.errors === 1) {
+      console.error(`[Logger] Plugin "${queue.plugin.name}" failed:`, queue.lastError);
+    }
+  }
+}
@@ -0,0 +1,525 @@
+// core/query.ts
+// ================================================================================
+// 🔎 Log Queries - A small filter language over log entries
+//
+//   level>=warning and ns:app:db* and metadata.userId=42 and msg~"timeout"
+//
+// A query is comparisons joined with `and`, `or` and `not` (`and` binds tighter
+// than `or`; adjacent comparisons are implicitly and-ed) and grouped with
+// parentheses. Each comparison is `field operator value`:
+//
+//   =  !=           equality (glob for ns:)     >  >=  <  <=   ordering
+//   ~  !~           contains / matches regex    :              shorthand for =
+//
+// Values are bare words, "quoted strings" or /regular expressions/flags.
+// Queries compile to a predicate usable with getHistory(), exported log files
+// and anything else holding LogEntry objects.
+// ================================================================================
+
+import { LogEntry } from "./config.ts";
+import { levels } from "./levels.ts";
+import { namespacePattern } from "./namespaces.ts";
+import { safeStringify } from "./serializer.ts";
+
+export type QueryOperator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "~" | "!~";
+
+export type QueryValue = string | number | boolean | null | RegExp;
+
+export type QueryNode =
+  | { type: "and" | "or"; left: QueryNode; right: QueryNode }
+  | { type: "not"; operand: QueryNode }
+  | {
+    type: "comparison";
+    field: string; // Canonical field path, e.g. "level" or "metadata.userId"
+    operator: QueryOperator;
+    value: QueryValue;
+    position: number; // Offset of the field in the source
+  };
+
+export type LogPredicate = (entry: LogEntry) => boolean;
+
+/**
+ * Thrown for malformed queries; the message points at the offending position
+ */
+export class QuerySyntaxError extends Error {
+  constructor(reason: string, readonly query: string, readonly position: number) {
+    super(`${reason} at position ${position}\n  ${query}\n  ${" ".repeat(position)}^`);
+    this.name = "QuerySyntaxError";
+  }
+}
+
+// Field names accepted at the start of a comparison, mapped to entry paths
+const FIELD_ALIASES: Record<string, string> = {
+  level: "level",
+  ns: "namespace",
+  namespace: "namespace",
+  msg: "message",
+  message: "message",
+  time: "timestamp",
+  timestamp: "timestamp",
+  category: "category",
+  requestId: "requestId",
+  traceId: "traceId",
+  spanId: "spanId",
+  metadata: "metadata",
+  meta: "metadata",
+  context: "context",
+  ctx: "context",
+  error: "error",
+  span: "span",
+};
+
+// Fields whose sub-paths may be queried
+const NESTED_FIELDS = new Set(["metadata", "context", "error", "span"]);
+
+const OPERATORS = [">=", "<=", "!=", "!~", "=", "~", ">", "<", ":"];
+
+const KEYWORDS = new Set(["and", "or", "not"]);
+
+const DURATION = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/;
+
+const DURATION_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+// ================================================================================
+// Parsing
+// ================================================================================
+
+/**
+ * Parse a query into its syntax tree; an empty query parses to undefined (matches everything)
+ */
+export function parseQuery(query: string): QueryNode | undefined {
+  return new Parser(query).parse();
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parse(): QueryNode | undefined {
+    this.skipSpace();
+    if (this.atEnd()) return undefined;
+
+    const node = this.parseOr();
+    this.skipSpace();
+    if (!this.atEnd()) this.fail('Unexpected ")"');
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    let left = this.parseAnd();
+    while (this.keyword("or")) {
+      left = { type: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): QueryNode {
+    let left = this.parseNot();
+    for (;;) {
+      if (this.keyword("and")) {
+        left = { type: "and", left, right: this.parseNot() };
+        continue;
+      }
+      // Adjacent comparisons are implicitly and-ed
+      this.skipSpace();
+      if (this.atEnd() || this.peek() === ")" || this.isKeyword("or")) return left;
+      left = { type: "and", left, right: this.parseNot() };
+    }
+  }
+
+  private parseNot(): QueryNode {
+    if (this.keyword("not")) return { type: "not", operand: this.parseNot() };
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    this.skipSpace();
+    if (this.atEnd()) this.fail("Expected a comparison such as level>=warning");
+
+    if (this.peek() === "(") {
+      const open = this.pos++;
+      const node = this.parseOr();
+      this.skipSpace();
+      if (this.peek() !== ")") this.fail('Missing ")" to close the group opened', open);
+      this.pos++;
+      return node;
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): QueryNode {
+    const position = this.pos;
+    const name = this.source.slice(this.pos).match(/^[A-Za-z_$][\w$-]*(?:\.[\w$-]+)*/)?.[0];
+    if (!name) this.fail(`Expected a field name, found "${this.word()}"`);
+    this.pos += name.length;
+
+    const field = resolveField(name, (reason) => this.fail(reason, position));
+
+    this.skipSpace();
+    const operator = OPERATORS.find((candidate) => this.source.startsWith(candidate, this.pos));
+    if (!operator) {
+      this.fail(
+        this.atEnd()
+          ? `Expected an operator after "${name}"`
+          : `Expected an operator (=, !=, >, >=, <, <=, ~, !~, :) after "${name}"`,
+      );
+    }
+    this.pos += operator.length;
+
+    this.skipSpace();
+    const valuePosition = this.pos;
+    const value = this.parseValue(name);
+    const normalized: QueryOperator = operator === ":" ? "=" : operator as QueryOperator;
+
+    validate(field, normalized, value, (reason) => this.fail(reason, valuePosition));
+    return { type: "comparison", field, operator: normalized, value, position };
+  }
+
+  private parseValue(field: string): QueryValue {
+    const start = this.pos;
+    const quote = this.peek();
+
+    if (quote === '"' || quote === "'") {
+      let text = "";
+      this.pos++;
+      while (!this.atEnd() && this.peek() !== quote) {
+        if (this.peek() === "\\" && this.pos + 1 < this.source.length) this.pos++;
+        text += this.source[this.pos++];
+      }
+      if (this.atEnd()) this.fail("Unterminated string", start);
+      this.pos++;
+      return text;
+    }
+
+    if (quote === "/") {
+      let pattern = "";
+      this.pos++;
+      while (!this.atEnd() && this.peek() !== "/") {
+        if (this.peek() === "\\" && this.pos + 1 < this.source.length) {
+          pattern += this.source[this.pos++];
+        }
+        pattern += this.source[this.pos++];
+      }
+      if (this.atEnd()) this.fail("Unterminated regular expression", start);
+      this.pos++;
+      const flags = this.source.slice(this.pos).match(/^[a-z]*/)![0];
+      this.pos += flags.length;
+      try {
+        return new RegExp(pattern, flags.replace("g", ""));
+      } catch (error) {
+        this.fail(error instanceof Error ? error.message : String(error), start);
+      }
+    }
+
+    const word = this.source.slice(this.pos).match(/^[^\s()"']+/)?.[0];
+    if (!word) this.fail(`Expected a value for "${field}"`);
+    this.pos += word.length;
+
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    if (/^-?\d+(\.\d+)?$/.test(word)) return Number(word);
+    return word;
+  }
+
+  // ================================================================================
+  // Scanning
+  // ================================================================================
+
+  private keyword(name: string): boolean {
+    this.skipSpace();
+    if (!this.isKeyword(name)) return false;
+    this.pos += name.length;
+    return true;
+  }
+
+  private isKeyword(name: string): boolean {
+    const word = this.word();
+    return word.toLowerCase() === name && /[\s(]|$/.test(this.source[this.pos + name.length] ?? "");
+  }
+
+  /**
+   * Identifier-like text at the cursor, for keywords and error messages
+   */
+  private word(): string {
+    return this.source.slice(this.pos).match(/^[^\s()]*/)![0] || this.peek();
+  }
+
+  private peek(): string {
+    return this.source[this.pos] ?? "";
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.source.length;
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.peek())) this.pos++;
+  }
+
+  private fail(reason: string, position = this.pos): never {
+    throw new QuerySyntaxError(reason, this.source, position);
+  }
+}
+
+/**
+ * Canonical path for a field name, e.g. "ns" → "namespace", "meta.user.id" → "metadata.user.id"
+ */
+function resolveField(name: string, fail: (reason: string) => never): string {
+  const [head, ...rest] = name.split(".");
+  const canonical = FIELD_ALIASES[head];
+
+  if (!canonical) {
+    if (KEYWORDS.has(head.toLowerCase())) fail(`Expected a comparison, found "${head}"`);
+    fail(`Unknown field "${head}"; did you mean "metadata.${name}" or "context.${name}"?`);
+  }
+  if (rest.length > 0 && !NESTED_FIELDS.has(canonical)) {
+    fail(`Field "${head}" has no sub-fields`);
+  }
+  return [canonical, ...rest].join(".");
+}
+
+function validate(
+  field: string,
+  operator: QueryOperator,
+  value: QueryValue,
+  fail: (reason: string) => never,
+): void {
+  const ordering = operator !== "=" && operator !== "!=" && operator !== "~" &&
+    operator !== "!~";
+
+  if (value instanceof RegExp && operator !== "~" && operator !== "!~") {
+    fail(`Regular expressions need "~" or "!~", not "${operator}"`);
+  }
+
+  if (field === "level" && (operator !== "~" && operator !== "!~")) {
+    if (!levels.has(String(value))) {
+      const known = levels.list().map((definition) => definition.name).join(", ");
+      fail(`"${value}" is not a level (expected one of ${known})`);
+    }
+  }
+
+  if (
+    field === "timestamp" && operator !== "~" && operator !== "!~" && parseTime(value) === undefined
+  ) {
+    fail(`"${value}" is not a time; use an ISO date or a duration ago such as 15m`);
+  }
+
+  if (ordering && field === "namespace") {
+    fail(`Namespaces cannot be ordered with "${operator}"; use "=" with a glob or "~"`);
+  }
+}
+
+/**
+ * Milliseconds since the epoch for an ISO date, or now minus a duration like "15m"
+ */
+function parseTime(value: QueryValue): number | undefined {
+  if (typeof value !== "string") return undefined;
+
+  const duration = value.match(DURATION);
+  if (duration) return Date.now() - Number(duration[1]) * DURATION_MS[duration[2]];
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// ================================================================================
+// Compilation
+// ================================================================================
+
+/**
+ * Compile a query (or parsed tree) into a predicate; throws QuerySyntaxError for invalid queries
+ */
+export function compileQuery(query: string | QueryNode | undefined): LogPredicate {
+  const node = typeof query === "string" ? parseQuery(query) : query;
+  return node ? compileNode(node) : () => true;
+}
+
+/**
+ * Entries matching a query, e.g. entries read back from an exported log file
+ */
+export function filterLogs(entries: LogEntry[], query: string | LogPredicate): LogEntry[] {
+  return entries.filter(typeof query === "string" ? compileQuery(query) : query);
+}
+
+/**
+ * Read entries back from a log file: the JSON written by exportLogs() and JsonLoggerPlugin,
+ * or JSON lines from FileLoggerPlugin and json outputs. Timestamps are revived as Dates.
+ */
+export async function readLogFile(
+  path: string,
+  query?: string | LogPredicate,
+): Promise<LogEntry[]> {
+  const entries = parseLogFile(await Deno.readTextFile(path));
+  return query === undefined ? entries : filterLogs(entries, query);
+}
+
+export function parseLogFile(content: string): LogEntry[] {
+  let records: unknown[];
+  try {
+    const data = JSON.parse(content);
+    records = Array.isArray(data) ? data : Array.isArray(data?.logs) ? data.logs : [data];
+  } catch {
+    // Not a single JSON document; parse line by line, skipping non-JSON lines
+    records = content.split("\n").flatMap((line) => {
+      if (!line.trim().startsWith("{")) return [];
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  return records
+    .filter((record): record is Record<string, unknown> =>
+      typeof record === "object" && record !== null && "level" in record
+    )
+    .map((record) => ({ ...record, timestamp: new Date(record.timestamp as string) }) as LogEntry);
+}
+
+function compileNode(node: QueryNode): LogPredicate {
+  switch (node.type) {
+    case "and": {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      return (entry) => left(entry) && right(entry);
+    }
+    case "or": {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      return (entry) => left(entry) || right(entry);
+    }
+    case "not": {
+      const operand = compileNode(node.operand);
+      return (entry) => !operand(entry);
+    }
+    case "comparison":
+      return compileComparison(node.field, node.operator, node.value);
+  }
+}
+
+function compileComparison(
+  field: string,
+  operator: QueryOperator,
+  value: QueryValue,
+): LogPredicate {
+  const path = field.split(".");
+  const read = (entry: LogEntry) => lookup(entry, path);
+
+  if (operator === "~" || operator === "!~") {
+    const test = value instanceof RegExp
+      ? (text: string) => value.test(text)
+      : (text: string) => text.toLowerCase().includes(String(value).toLowerCase());
+    const matches: LogPredicate = (entry) => {
+      const actual = read(entry);
+      return actual !== undefined && test(toText(actual));
+    };
+    return operator === "~" ? matches : (entry) => !matches(entry);
+  }
+
+  let equals: (actual: unknown) => boolean;
+  let compare: ((actual: unknown) => number | undefined) | undefined;
+
+  if (field === "level") {
+    const severity = levels.severity(String(value));
+    equals = (actual) => actual === value;
+    compare = (actual) =>
+      typeof actual === "string" && levels.has(actual)
+        ? levels.severity(actual) - severity
+        : undefined;
+  } else if (field === "namespace") {
+    const text = String(value);
+    const regex = text.includes("*") ? namespacePattern(text) : undefined;
+    equals = (actual) => {
+      const namespace = typeof actual === "string" ? actual : "";
+      return regex ? regex.test(namespace) : namespace === text;
+    };
+  } else if (field === "timestamp") {
+    const time = parseTime(value)!;
+    const exact = typeof value === "string" && !DURATION.test(value);
+    equals = (actual) => exact && toTime(actual) === time;
+    compare = (actual) => {
+      const actualTime = toTime(actual);
+      return actualTime === undefined ? undefined : actualTime - time;
+    };
+  } else {
+    equals = (actual) => looselyEquals(actual, value);
+    compare = (actual) => compareValues(actual, value);
+  }
+
+  switch (operator) {
+    case "=":
+      return (entry) => equals(read(entry));
+    case "!=":
+      return (entry) => !equals(read(entry));
+  }
+
+  const order = compare!;
+  const accept: (difference: number) => boolean = {
+    ">": (difference: number) => difference > 0,
+    ">=": (difference: number) => difference >= 0,
+    "<": (difference: number) => difference < 0,
+    "<=": (difference: number) => difference <= 0,
+  }[operator];
+
+  return (entry) => {
+    const difference = order(read(entry));
+    return difference !== undefined && accept(difference);
+  };
+}
+
+function lookup(entry: LogEntry, path: string[]): unknown {
+  let current: unknown = entry;
+  for (const key of path) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Primitives compare by their text, so 42 matches both 42 and "42"; null matches missing fields
+ */
+function looselyEquals(actual: unknown, expected: QueryValue): boolean {
+  if (expected === null) return actual === null || actual === undefined;
+  if (actual === undefined || actual === null) return false;
+  return toText(actual) === String(expected);
+}
+
+function compareValues(actual: unknown, expected: QueryValue): number | undefined {
+  if (actual === undefined || actual === null || expected === null) return undefined;
+
+  const actualNumber = typeof actual === "number" ? actual : Number(toText(actual));
+  if (typeof expected === "number" && !Number.isNaN(actualNumber)) {
+    return actualNumber - expected;
+  }
+  return toText(actual).localeCompare(String(expected));
+}
+
+function toText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object" && value !== null) return safeStringify(value);
+  return String(value);
+}
+
+/**
+ * Timestamps are Dates in memory and ISO strings in exported files
+ */
+function toTime(value: unknown): number | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" || typeof value === "number") {
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
@@ -0,0 +1,242 @@
+// core/redaction.ts
+// ================================================================================
+// 🙈 Redaction - Strip secrets and PII before any plugin or output sees an entry
+// Key paths (`headers.authorization`, `*.password`, `**.token`) select fields to
+// redact; detectors find secrets inside any string, including the message.
+// Matches are masked, replaced with a short hash, or removed.
+// ================================================================================
+
+import { createHash } from "node:crypto";
+import { LogEntry } from "./config.ts";
+import { isError, serializeError } from "./errors.ts";
+import { safeStringify } from "./serializer.ts";
+
+export type RedactionMode = "mask" | "hash" | "remove";
+
+export type BuiltinDetector = "jwt" | "bearer" | "card" | "email";
+
+export interface SecretDetector {
+  name: string;
+  pattern: RegExp; // Must be global; only the matched text is redacted
+  validate?: (match: string) => boolean; // Reject false positives
+}
+
+export interface RedactionOptions {
+  // Dot-separated, case-insensitive key paths from the metadata/context root;
+  // `*` matches one key, `**` any number of keys
+  paths?: string[];
+  // Detectors run on every string; defaults to all built-in detectors
+  detectors?: Array<BuiltinDetector | SecretDetector>;
+  mode?: RedactionMode; // Defaults to "mask"
+  mask?: string; // Replacement in mask mode, defaults to "[REDACTED]"
+  salt?: string; // Mixed into hashes so low-entropy values cannot be looked up
+}
+
+export const BUILTIN_DETECTORS: Record<BuiltinDetector, SecretDetector> = {
+  jwt: {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  },
+  bearer: {
+    name: "bearer",
+    pattern: /(?<=\b(?:Bearer|Basic|Token)\s+)[A-Za-z0-9\-._~+/]+=*/gi,
+  },
+  card: {
+    name: "card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => luhn(match.replace(/[ -]/g, "")),
+  },
+  email: {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+};
+
+const DEFAULT_MASK = "[REDACTED]";
+
+// Marker returned by the walker for fields that remove mode deletes
+const REMOVED = Symbol("removed");
+
+export class Redactor {
+  private static cache = new WeakMap<RedactionOptions, Redactor>();
+
+  private paths: string[][];
+  private detectors: SecretDetector[];
+  private mode: RedactionMode;
+  private mask: string;
+  private salt: string;
+
+  constructor(options: RedactionOptions) {
+    this.paths = (options.paths ?? []).map((path) => path.toLowerCase().split("."));
+    this.detectors = (options.detectors ?? Object.keys(BUILTIN_DETECTORS) as BuiltinDetector[])
+      .map((detector) => {
+        if (typeof detector !== "string") return detector;
+        const builtin = BUILTIN_DETECTORS[detector];
+        if (!builtin) throw new Error(`Unknown redaction detector "${detector}"`);
+        return builtin;
+      });
+    this.mode = options.mode ?? "mask";
+    this.mask = options.mask ?? DEFAULT_MASK;
+    this.salt = options.salt ?? "";
+  }
+
+  /**
+   * Redactor for an options object; compiled once per object
+   */
+  static for(options: RedactionOptions): Redactor {
+    let redactor = Redactor.cache.get(options);
+    if (!redactor) {
+      redactor = new Redactor(options);
+      Redactor.cache.set(options, redactor);
+    }
+    return redactor;
+  }
+
+  /**
+   * Copy of the entry with secrets redacted; the caller's objects are never mutated
+   */
+  redact(entry: LogEntry): LogEntry {
+    const result: LogEntry = { ...entry, message: this.redactString(entry.message) };
+
+    if (entry.metadata) {
+      result.metadata = this.walk(entry.metadata, [], new Set()) as Record<string, unknown>;
+    }
+    if (entry.context) {
+      result.context = this.walk(entry.context, [], new Set()) as Record<string, unknown>;
+    }
+    if (entry.error) {
+      // Key paths apply to the error's custom properties, e.g. `**.password`
+      result.error = this.walk(entry.error, ["error"], new Set()) as LogEntry["error"];
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply every detector to a string
+   */
+  redactString(value: string): string {
+    let result = value;
+    for (const detector of this.detectors) {
+      detector.pattern.lastIndex = 0;
+      result = result.replace(detector.pattern, (match) => {
+        if (detector.validate && !detector.validate(match)) return match;
+        return this.mode === "remove" ? "" : this.replacement(match);
+      });
+    }
+    return result;
+  }
+
+  // ================================================================================
+  // Traversal
+  // ================================================================================
+
+  /**
+   * Copy plain objects, arrays, Maps, Sets and class instances, redacting matched paths and
+   * detected strings. Errors are serialized first so their custom properties are covered,
+   * and cycles become "[Circular]" as in the serializer. path is null below the point where
+   * key paths stop applying.
+   */
+  private walk(value: unknown, path: string[] | null, seen: Set<object>): unknown {
+    if (path && path.length > 0 && this.matchesPath(path)) {
+      return this.mode === "remove" ? REMOVED : this.replacement(value);
+    }
+
+    if (typeof value === "string") return this.redactString(value);
+    if (typeof value !== "object" || value === null) return value;
+    if (seen.has(value)) return "[Circular]";
+    if (isError(value)) return this.walk(serializeError(value), path, seen);
+
+    const child = (key: string) => path ? [...path, key.toLowerCase()] : null;
+
+    seen.add(value);
+    try {
+      if (Array.isArray(value)) {
+        return value
+          .map((item, index) => this.walk(item, child(String(index)), seen))
+          .filter((item) => item !== REMOVED);
+      }
+
+      if (value instanceof Set) {
+        const result = new Set();
+        [...value].forEach((item, index) => {
+          const redacted = this.walk(item, child(String(index)), seen);
+          if (redacted !== REMOVED) result.add(redacted);
+        });
+        return result;
+      }
+
+      if (value instanceof Map) {
+        const result = new Map();
+        for (const [key, item] of value) {
+          const redacted = this.walk(item, child(String(key)), seen);
+          if (redacted !== REMOVED) result.set(key, redacted);
+        }
+        return result;
+      }
+
+      // Class instances are redacted as the serializer writes them: their toJSON() result
+      // or own enumerable fields. Built-ins without fields (Date, RegExp, ...) are kept.
+      const prototype = Object.getPrototypeOf(value);
+      if (prototype !== null && prototype !== Object.prototype) {
+        const toJSON = (value as { toJSON?: unknown }).toJSON;
+        if (typeof toJSON === "function" && !(value instanceof Date)) {
+          return this.walk(toJSON.call(value), path, seen);
+        }
+        if (Object.keys(value).length === 0) return value;
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const redacted = this.walk(item, child(key), seen);
+        if (redacted !== REMOVED) result[key] = redacted;
+      }
+      return result;
+    } finally {
+      seen.delete(value);
+    }
+  }
+
+  private matchesPath(path: string[]): boolean {
+    return this.paths.some((pattern) => matchSegments(pattern, 0, path, 0));
+  }
+
+  private replacement(value: unknown): string {
+    if (this.mode !== "hash") return this.mask;
+    const text = typeof value === "string" ? value : safeStringify(value);
+    const digest = createHash("sha256").update(this.salt + text).digest("hex");
+    return `[hash:${digest.slice(0, 12)}]`;
+  }
+}
+
+/**
+ * Match path segments against a pattern where `*` is one key and `**` any number of keys
+ */
+function matchSegments(pattern: string[], p: number, path: string[], k: number): boolean {
+  if (p === pattern.length) return k === path.length;
+  if (pattern[p] === "**") {
+    for (let skip = k; skip <= path.length; skip++) {
+      if (matchSegments(pattern, p + 1, path, skip)) return true;
+    }
+    return false;
+  }
+  if (k === path.length) return false;
+  if (pattern[p] !== "*" && pattern[p] !== path[k]) return false;
+  return matchSegments(pattern, p + 1, path, k + 1);
+}
+
+/**
+ * Luhn checksum, used to tell card numbers from other long digit runs
+ */
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
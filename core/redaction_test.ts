@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import type { LogEntry } from "./config.ts";
+import { SerializedError, serializeError } from "./errors.ts";
+import { Redactor } from "./redaction.ts";
+import { safeStringify } from "./serializer.ts";
+
+const redactor = new Redactor({ paths: ["**.password"], detectors: [] });
+
+function entry(fields: Partial<LogEntry>): LogEntry {
+  return { timestamp: new Date(0), level: "info", message: "test", ...fields };
+}
+
+class Credentials {
+  constructor(public user: string, public password: string) {}
+}
+
+class Session {
+  constructor(private secret: { password: string }) {}
+  toJSON() {
+    return { session: this.secret };
+  }
+}
+
+Deno.test("redacts fields of class instances", () => {
+  const credentials = new Credentials("ada", "hunter2");
+  const result = redactor.redact(entry({ metadata: { login: credentials } }));
+
+  const line = safeStringify(result.metadata);
+  assert.ok(!line.includes("hunter2"), line);
+  assert.deepEqual(result.metadata?.login, { user: "ada", password: "[REDACTED]" });
+  assert.equal(credentials.password, "hunter2", "the caller's instance was mutated");
+});
+
+Deno.test("redacts the toJSON() result of class instances", () => {
+  const result = redactor.redact(
+    entry({ metadata: { state: new Session({ password: "s3cret" }) } }),
+  );
+  assert.deepEqual(result.metadata?.state, { session: { password: "[REDACTED]" } });
+});
+
+Deno.test("keeps built-ins without fields", () => {
+  const date = new Date(0);
+  const pattern = /a+/;
+  const result = redactor.redact(entry({ metadata: { date, pattern } }));
+  assert.equal(result.metadata?.date, date);
+  assert.equal(result.metadata?.pattern, pattern);
+});
+
+Deno.test("redacts the contents of Sets and Maps", () => {
+  const token = "Bearer abc.def";
+  const tags = new Set([token, { password: "hunter2" }]);
+  const byUser = new Map([["ada", { password: "hunter2" }]]);
+  const result = new Redactor({ paths: ["**.password"] }).redact(
+    entry({ metadata: { tags, byUser } }),
+  );
+
+  const line = safeStringify(result.metadata);
+  assert.ok(!line.includes("hunter2"), line);
+  assert.ok(!line.includes("abc.def"), line);
+  assert.ok(result.metadata?.tags instanceof Set);
+  assert.deepEqual(result.metadata?.byUser, new Map([["ada", { password: "[REDACTED]" }]]));
+  assert.equal(tags.size, 2, "the caller's Set was mutated");
+});
+
+Deno.test("marks cycles instead of returning the unredacted object", () => {
+  const account: Record<string, unknown> = { password: "hunter2" };
+  account.self = account;
+  const result = redactor.redact(entry({ metadata: { account } }));
+
+  const line = safeStringify(result.metadata);
+  assert.ok(!line.includes("hunter2"), line);
+  assert.deepEqual(result.metadata?.account, { password: "[REDACTED]", self: "[Circular]" });
+});
+
+Deno.test("hashes values the JSON encoder rejects", () => {
+  const hasher = new Redactor({ paths: ["user"], mode: "hash", detectors: [] });
+  const result = hasher.redact(entry({ metadata: { user: { id: 1n } } }));
+  assert.match(String(result.metadata?.user), /^\[hash:[0-9a-f]{12}\]$/);
+});
+
+Deno.test("redacts custom properties of nested errors", () => {
+  const error = Object.assign(new Error("login failed"), { password: "hunter2", user: "ada" });
+  const result = redactor.redact(entry({ metadata: { request: { failure: error } } }));
+
+  const line = safeStringify(result.metadata);
+  assert.ok(!line.includes("hunter2"), line);
+  const { failure } = result.metadata?.request as { failure: SerializedError };
+  assert.equal(failure.message, "login failed");
+  assert.deepEqual(failure.properties, { password: "[REDACTED]", user: "ada" });
+});
+
+Deno.test("redacts custom properties of the entry error and its cause", () => {
+  const cause = Object.assign(new Error("db"), { password: "from-cause" });
+  const error = Object.assign(new Error("login failed", { cause }), { password: "hunter2" });
+  const result = redactor.redact(entry({ error: serializeError(error) }));
+
+  const line = safeStringify(result.error);
+  assert.ok(!line.includes("hunter2"), line);
+  assert.ok(!line.includes("from-cause"), line);
+});
@@ -5,6 +5,9 @@
 // ================================================================================
 
 import { LogEntry, LogLevel } from "./config.ts";
+import { levels } from "./levels.ts";
+import { getFormat } from "./formats.ts";
+import { NO_LIMITS, safeStringify, toSerializable } from "./serializer.ts";
 
 // ================================================================================
 // Simple Types - No Magic, Just Data Structures
@@ -35,6 +38,7 @@ export interface RemoteLoggerConfig {
   onError?: (error: Error, destination: RemoteDestination) => void;
   onSuccess?: (destination: RemoteDestination, logCount: number) => void;
   transformPayload?: (logs: LogEntry[]) => any;
+  format?: string; // Send newline-delimited lines of a registered format instead of the envelope
 }
 
 // ================================================================================
@@ -43,7 +47,7 @@ export interface RemoteLoggerConfig {
 
 export class RemoteLogger {
   private buffer: LogEntry[] = [];
-  private flushTimer?: number;
+  private flushTimer?: ReturnType<typeof setInterval>;
   private circuitBreakers: Map<string, any> = new Map();
   private healthStats: Map<string, any> = new Map();
   private isShuttingDown = false;
@@ -68,6 +72,8 @@ export class RemoteLogger {
     this.config.enableCircuitBreaker = this.config.enableCircuitBreaker ?? true;
     this.config.circuitBreakerThreshold = this.config.circuitBreakerThreshold || 5;
     this.config.circuitBreakerTimeout = this.config.circuitBreakerTimeout || 60000;
+    // Fail on unknown format names now rather than on every flush
+    if (this.config.format) getFormat(this.config.format);
   }
 
   private initializeDestinations(): void {
@@ -188,16 +194,11 @@ export class RemoteLogger {
     logs: LogEntry[],
   ): Promise<void> {
     // Prepare payload
-    const payload = this.config.transformPayload
-      ? this.config.transformPayload(logs)
-      : this.prepareDefaultPayload(logs);
-
-    // Simple approach: Always use JSON string, no compression type issues
-    const bodyString = JSON.stringify(payload);
+    const { body: bodyString, contentType } = this.encode(logs);
 
     // Build headers - simple object
     const headers: Record<string, string> = {
-      "Content-Type": "application/json",
+      "Content-Type": contentType,
       ...(destination.headers || {}),
     };
 
@@ -231,6 +232,24 @@ export class RemoteLogger {
     }
   }
 
+  /**
+   * Request body: a transformed or default JSON payload, or one line per entry in the format
+   */
+  private encode(logs: LogEntry[]): { body: string; contentType: string } {
+    if (this.config.format && !this.config.transformPayload) {
+      const format = getFormat(this.config.format);
+      return { body: logs.map(format.format).join("\n"), contentType: format.contentType };
+    }
+
+    const payload = this.config.transformPayload
+      ? this.config.transformPayload(logs)
+      : this.prepareDefaultPayload(logs);
+
+    // Simple approach: Always use JSON string, no compression type issues
+    // Entries were converted with the serializer's limits; the envelope itself is not truncated
+    return { body: safeStringify(payload, undefined, NO_LIMITS), contentType: "application/json" };
+  }
+
   private prepareDefaultPayload(logs: LogEntry[]): any {
     return {
       version: "1.0",
@@ -240,10 +259,15 @@ export class RemoteLogger {
         timestamp: entry.timestamp.toISOString(),
         level: entry.level,
         message: entry.message,
-        metadata: entry.metadata,
+        metadata: toSerializable(entry.metadata),
         category: entry.category,
         requestId: entry.requestId,
         namespace: entry.namespace,
+        context: toSerializable(entry.context),
+        error: toSerializable(entry.error),
+        traceId: entry.traceId,
+        spanId: entry.spanId,
+        traceFlags: entry.traceFlags,
       })),
     };
   }
@@ -253,10 +277,7 @@ export class RemoteLogger {
   // ================================================================================
 
   private shouldLog(level: LogLevel): boolean {
-    const levels: LogLevel[] = ["debug", "info", "success", "warning", "error", "critical"];
-    const minIndex = levels.indexOf(this.config.minLevel!);
-    const levelIndex = levels.indexOf(level);
-    return levelIndex >= minIndex;
+    return levels.isEnabled(level, this.config.minLevel!);
   }
 
   private startPeriodicFlush(): void {
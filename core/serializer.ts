@@ -0,0 +1,220 @@
+// core/serializer.ts
+// ================================================================================
+// 🧬 Safe Serializer - JSON for arbitrary metadata that never throws
+// Handles circular references, BigInt, Map/Set, Dates, typed arrays, Symbols,
+// Errors and class instances, and enforces depth, array and string limits
+// ================================================================================
+
+import { isError, serializeError } from "./errors.ts";
+
+export interface SerializeOptions {
+  maxDepth?: number; // Nesting below this depth is replaced with a marker
+  maxArrayLength?: number; // Items kept per array, Set, Map or typed array
+  maxStringLength?: number; // Characters kept per string
+}
+
+/**
+ * Limits that only break cycles, for envelopes (batches, exports) whose entries
+ * were already converted with toSerializable
+ */
+export const NO_LIMITS: Required<SerializeOptions> = {
+  maxDepth: Infinity,
+  maxArrayLength: Infinity,
+  maxStringLength: Infinity,
+};
+
+const defaults: Required<SerializeOptions> = {
+  maxDepth: 10,
+  maxArrayLength: 100,
+  maxStringLength: 10_000,
+};
+
+/**
+ * Change the limits used when no options are passed; returns the previous limits
+ */
+export function configureSerializer(options: SerializeOptions): Required<SerializeOptions> {
+  const previous = { ...defaults };
+  Object.assign(defaults, withoutUndefined(options));
+  return previous;
+}
+
+/**
+ * Convert any value into plain JSON-compatible data
+ */
+export function toSerializable(value: unknown, options: SerializeOptions = {}): unknown {
+  const limits = { ...defaults, ...withoutUndefined(options) };
+  return convert(value, limits, new Set(), 0);
+}
+
+/**
+ * JSON.stringify that accepts any value and never throws
+ */
+export function safeStringify(
+  value: unknown,
+  indent?: number,
+  options?: SerializeOptions,
+): string {
+  try {
+    return JSON.stringify(toSerializable(value, options), null, indent) ?? "null";
+  } catch (error) {
+    return JSON.stringify(
+      `[Unserializable: ${error instanceof Error ? error.message : String(error)}]`,
+    );
+  }
+}
+
+// ================================================================================
+// Conversion
+// ================================================================================
+
+function convert(
+  value: unknown,
+  limits: Required<SerializeOptions>,
+  seen: Set<object>,
+  depth: number,
+): unknown {
+  switch (typeof value) {
+    case "string":
+      return truncateString(value, limits.maxStringLength);
+    case "number":
+      return Number.isFinite(value) ? value : String(value);
+    case "boolean":
+      return value;
+    case "bigint":
+      return value.toString();
+    case "symbol":
+      return value.toString();
+    case "function":
+      return `[Function ${value.name || "anonymous"}]`;
+    case "undefined":
+      return undefined;
+  }
+
+  if (value === null) return null;
+  const object = value as object;
+
+  if (object instanceof Date) {
+    return isNaN(object.getTime()) ? "Invalid Date" : object.toISOString();
+  }
+  if (object instanceof RegExp) return object.toString();
+
+  if (seen.has(object)) return "[Circular]";
+  if (depth >= limits.maxDepth) return `[${describe(object)}]`;
+
+  seen.add(object);
+  try {
+    return convertObject(object, limits, seen, depth + 1);
+  } catch (error) {
+    // Throwing getters or toJSON methods must not take the log line down
+    return `[${describe(object)}: ${error instanceof Error ? error.message : String(error)}]`;
+  } finally {
+    seen.delete(object);
+  }
+}
+
+function convertObject(
+  object: object,
+  limits: Required<SerializeOptions>,
+  seen: Set<object>,
+  depth: number,
+): unknown {
+  const next = (item: unknown) => convert(item, limits, seen, depth);
+
+  if (isError(object)) {
+    return next(serializeError(object));
+  }
+
+  if (Array.isArray(object)) {
+    return convertItems(object, limits, (item) => next(item) ?? null);
+  }
+
+  if (ArrayBuffer.isView(object)) {
+    if (object instanceof DataView) return `[DataView(${object.byteLength})]`;
+    const items = Array.from(object as unknown as ArrayLike<number | bigint>);
+    return convertItems(items, limits, next);
+  }
+
+  if (object instanceof ArrayBuffer) return `[ArrayBuffer(${object.byteLength})]`;
+
+  if (object instanceof Set) {
+    return convertItems([...object], limits, (item) => next(item) ?? null);
+  }
+
+  if (object instanceof Map) {
+    // String and number keys become an object; anything else a list of [key, value] pairs
+    const entries = [...object];
+    const plainKeys = entries.every(([key]) => typeof key === "string" || typeof key === "number");
+    if (!plainKeys) {
+      return convertItems(
+        entries,
+        limits,
+        ([key, item]) => [next(key) ?? null, next(item) ?? null],
+      );
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of entries.slice(0, limits.maxArrayLength)) {
+      result[String(key)] = next(item);
+    }
+    if (entries.length > limits.maxArrayLength) {
+      result["…"] = `[… ${entries.length - limits.maxArrayLength} more entries]`;
+    }
+    return result;
+  }
+
+  if (typeof (object as { toJSON?: unknown }).toJSON === "function") {
+    const json = (object as { toJSON(): unknown }).toJSON();
+    return json === object ? `[${describe(object)}]` : next(json);
+  }
+
+  if (object instanceof Promise || object instanceof WeakMap || object instanceof WeakSet) {
+    return `[${describe(object)}]`;
+  }
+
+  const keys = Object.keys(object);
+  const prototype = Object.getPrototypeOf(object);
+  const isPlain = prototype === null || prototype === Object.prototype;
+
+  // Class instances whose state is not enumerable (Request, URL, ...) keep their name
+  if (!isPlain && keys.length === 0) return `[${describe(object)}]`;
+
+  const result: Record<string, unknown> = {};
+  for (const key of keys) {
+    result[key] = next((object as Record<string, unknown>)[key]);
+  }
+  return result;
+}
+
+/**
+ * Convert at most maxArrayLength items, ending with a marker for the rest
+ */
+function convertItems<T>(
+  items: T[],
+  limits: Required<SerializeOptions>,
+  convertItem: (item: T) => unknown,
+): unknown[] {
+  const result = items.slice(0, limits.maxArrayLength).map(convertItem);
+  if (items.length > limits.maxArrayLength) {
+    result.push(`[… ${items.length - limits.maxArrayLength} more items]`);
+  }
+  return result;
+}
+
+function truncateString(value: string, maxLength: number): string {
+  if (value.length <= maxLength) return value;
+  return `${value.slice(0, maxLength)}[… ${value.length - maxLength} more characters]`;
+}
+
+function describe(object: object): string {
+  if (Array.isArray(object)) return `Array(${object.length})`;
+  if (object instanceof Map || object instanceof Set) {
+    return `${object.constructor.name}(${object.size})`;
+  }
+  const name = Object.getPrototypeOf(object)?.constructor?.name;
+  return typeof name === "string" && name.length > 0 ? name : "Object";
+}
+
+function withoutUndefined(options: SerializeOptions): SerializeOptions {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined),
+  ) as SerializeOptions;
+}
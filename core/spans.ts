@@ -0,0 +1,152 @@
+// core/spans.ts
+// ================================================================================
+// ⏱️ Spans - Timed, nested units of work
+// The active span follows the async call tree, so every entry logged inside
+// Logger.span() records which span (and parent span) it belongs to. Finished
+// spans are aggregated per name path for the shutdown summary.
+// ================================================================================
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { getContext } from "./context.ts";
+import { newSpanId, newTraceId, SAMPLED_FLAG, TraceContext } from "./trace.ts";
+
+/**
+ * Span identity recorded on log entries
+ */
+export interface SpanInfo {
+  id: string; // 16 hex characters
+  parentId?: string;
+  name: string;
+  durationMs?: number; // Set on the entry that ends the span
+}
+
+export interface ActiveSpan extends SpanInfo {
+  traceId: string;
+  traceFlags: number;
+  path: string[]; // Names from the root span down to this one
+  start: number; // performance.now() at start
+}
+
+/**
+ * Handle returned by Logger.time()
+ */
+export interface Timer {
+  readonly label: string;
+  elapsed(): number; // Milliseconds so far, or the final duration once ended
+  end(metadata?: Record<string, unknown>): number; // Logs once; returns milliseconds
+}
+
+export interface SpanSummaryOptions {
+  limit?: number; // Rows in the summary table, defaults to 10
+}
+
+/**
+ * Aggregated timings for one span name path
+ */
+export interface SpanStats {
+  path: string[];
+  count: number;
+  errors: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+const storage = new AsyncLocalStorage<ActiveSpan>();
+
+/**
+ * Innermost span of the current async call tree, if any
+ */
+export function activeSpan(): ActiveSpan | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Start a span as a child of the active span, or of the trace bound with
+ * runWithContext; it is not active until passed to runInSpan
+ */
+export function startSpan(name: string): ActiveSpan {
+  const parent = activeSpan();
+  const context = getContext();
+  return {
+    id: newSpanId(),
+    parentId: parent?.id ?? context?.spanId,
+    name,
+    traceId: parent?.traceId ?? context?.traceId ?? newTraceId(),
+    traceFlags: parent?.traceFlags ?? context?.traceFlags ?? SAMPLED_FLAG,
+    path: parent ? [...parent.path, name] : [name],
+    start: performance.now(),
+  };
+}
+
+export function runInSpan<T>(span: ActiveSpan, fn: () => T): T {
+  return storage.run(span, fn);
+}
+
+/**
+ * Trace context of the active span, or the one bound with runWithContext.
+ * Pass it to formatTraceparent() to propagate the trace on outgoing requests.
+ */
+export function currentTraceContext(): TraceContext | undefined {
+  const span = activeSpan();
+  if (span) return { traceId: span.traceId, spanId: span.id, traceFlags: span.traceFlags };
+
+  const context = getContext();
+  if (!context?.traceId || !context.spanId) return undefined;
+  return {
+    traceId: context.traceId,
+    spanId: context.spanId,
+    traceFlags: context.traceFlags ?? SAMPLED_FLAG,
+  };
+}
+
+// ================================================================================
+// Recording
+// ================================================================================
+
+export class SpanRecorder {
+  private stats = new Map<string, SpanStats>();
+
+  record(span: ActiveSpan, durationMs: number, failed: boolean): void {
+    const key = span.path.join("\u0000");
+    let stats = this.stats.get(key);
+    if (!stats) {
+      stats = { path: span.path, count: 0, errors: 0, totalMs: 0, maxMs: 0 };
+      this.stats.set(key, stats);
+    }
+
+    stats.count++;
+    stats.totalMs += durationMs;
+    stats.maxMs = Math.max(stats.maxMs, durationMs);
+    if (failed) stats.errors++;
+  }
+
+  /**
+   * Stats in tree order: each path is followed by its children, slowest (by total) first
+   */
+  tree(limit = Infinity): SpanStats[] {
+    const all = [...this.stats.values()];
+    const childrenOf = (parent: string[]) =>
+      all
+        .filter((stats) =>
+          stats.path.length === parent.length + 1 &&
+          parent.every((name, index) => stats.path[index] === name)
+        )
+        .sort((a, b) => b.totalMs - a.totalMs);
+
+    const rows: SpanStats[] = [];
+    const visit = (parent: string[]) => {
+      for (const stats of childrenOf(parent)) {
+        if (rows.length >= limit) return;
+        rows.push({ ...stats });
+        visit(stats.path);
+      }
+    };
+    visit([]);
+
+    return rows;
+  }
+
+  get size(): number {
+    return this.stats.size;
+  }
+}
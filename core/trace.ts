@@ -0,0 +1,70 @@
+// core/trace.ts
+// ================================================================================
+// 🔗 Trace Context - W3C traceparent parsing and formatting
+//
+//   traceparent: 00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01
+//                ^  ^ trace-id (32 hex)              ^ span-id (16 hex) ^ flags
+//
+// Entries logged under a trace carry traceId, spanId and traceFlags so they
+// correlate with traces in OpenTelemetry-compatible backends
+// ================================================================================
+
+export interface TraceContext {
+  traceId: string; // 32 lowercase hex characters
+  spanId: string; // 16 lowercase hex characters
+  traceFlags: number; // Bit 0 is "sampled"
+}
+
+export const TRACEPARENT_HEADER = "traceparent";
+
+// Flags used when this process starts a new trace
+export const SAMPLED_FLAG = 0x01;
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parse a traceparent header; returns undefined for missing or invalid values
+ */
+export function parseTraceparent(header: string | null | undefined): TraceContext | undefined {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT);
+  if (!match) return undefined;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is forbidden; version 00 allows no trailing fields
+  if (version === "ff" || (version === "00" && rest !== undefined)) return undefined;
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+
+  return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+export function formatTraceparent(context: TraceContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Trace context for handling an incoming request: continues the caller's trace
+ * when the traceparent header is valid, otherwise starts a new one. The request
+ * always gets a new span id of its own.
+ */
+export function continueTrace(traceparent: string | null | undefined): TraceContext {
+  const incoming = parseTraceparent(traceparent);
+  return {
+    traceId: incoming?.traceId ?? newTraceId(),
+    spanId: newSpanId(),
+    traceFlags: incoming?.traceFlags ?? SAMPLED_FLAG,
+  };
+}
+
+export function newTraceId(): string {
+  return randomHex(16);
+}
+
+export function newSpanId(): string {
+  return randomHex(8);
+}
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -17,7 +17,7 @@ import { Logger } from "../../mod.ts";
 // Note: expressLogger, honoLogger, and oakLogger are currently disabled
 // as they depend on removed functionality
 
-const sharedLogger = new Logger().child("http");
+const sharedLogger = Logger.get("http");
 const demoDurationMs = Number(Deno.env.get("ADAPTER_DEMO_DURATION_MS") ?? "5000");
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
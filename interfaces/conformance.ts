@@ -0,0 +1,211 @@
+// ==============================================================================
+// ✅ ILogger Conformance Suite
+// ------------------------------------------------------------------------------
+// Reusable checks every ILogger implementation should pass
+// Run them with Deno.test through testILoggerConformance, or with any other
+// runner through runILoggerConformance
+// ==============================================================================
+
+import type { LogEntry } from "../core/config.ts";
+import type { ILogger } from "./ILogger.ts";
+
+export interface ConformanceOptions {
+  /**
+   * Entries the logger recorded, for implementations that can observe them (e.g. TestLogger).
+   * Enables the checks that calls are recorded with the right level, message and metadata.
+   */
+  recorded?: (logger: ILogger) => Array<Pick<LogEntry, "level" | "message" | "metadata">>;
+}
+
+export interface ConformanceCheck {
+  name: string;
+  run(logger: ILogger, options: ConformanceOptions): void | Promise<void>;
+}
+
+export interface ConformanceFailure {
+  check: string;
+  error: unknown;
+}
+
+type LevelMethod =
+  | "logInfo"
+  | "logSuccess"
+  | "logWarning"
+  | "logError"
+  | "logDebug"
+  | "logCritical";
+
+const LEVEL_METHODS: Record<LevelMethod, string> = {
+  logInfo: "info",
+  logSuccess: "success",
+  logWarning: "warning",
+  logError: "error",
+  logDebug: "debug",
+  logCritical: "critical",
+};
+
+const METHODS = [...Object.keys(LEVEL_METHODS), "logRequest", "logSection"];
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function eachLevel(fn: (method: LevelMethod) => void): void {
+  (Object.keys(LEVEL_METHODS) as LevelMethod[]).forEach(fn);
+}
+
+function deepFreeze<T>(value: T): T {
+  if (typeof value === "object" && value !== null && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.values(value).forEach(deepFreeze);
+  }
+  return value;
+}
+
+// ================================================================================
+// Checks
+// ================================================================================
+
+export const ILOGGER_CONFORMANCE: ConformanceCheck[] = [
+  {
+    name: "implements every ILogger method",
+    run(logger) {
+      for (const method of METHODS) {
+        assert(
+          typeof (logger as unknown as Record<string, unknown>)[method] === "function",
+          `${method} is not a function`,
+        );
+      }
+    },
+  },
+  {
+    name: "level methods accept a message without metadata",
+    run(logger) {
+      eachLevel((method) => logger[method](`conformance ${method} without metadata`));
+    },
+  },
+  {
+    name: "level methods accept empty, multiline and unicode messages",
+    run(logger) {
+      eachLevel((method) => {
+        logger[method]("");
+        logger[method]("first line\nsecond line");
+        logger[method]("✅ ünïcödé 日本語 🚀");
+      });
+    },
+  },
+  {
+    name: "level methods accept nested, circular and unusual metadata",
+    run(logger) {
+      const circular: Record<string, unknown> = { name: "loop" };
+      circular.self = circular;
+
+      eachLevel((method) =>
+        logger[method](`conformance ${method} with metadata`, {
+          nested: { deep: { deeper: [1, "two", { three: 3 }] } },
+          circular,
+          error: new Error("conformance error"),
+          date: new Date(0),
+          missing: undefined,
+          empty: null,
+          big: 10n,
+        })
+      );
+    },
+  },
+  {
+    name: "metadata is not mutated",
+    run(logger) {
+      const metadata = deepFreeze({ user: { id: 1, roles: ["admin"] }, count: 2 });
+      const before = JSON.stringify(metadata);
+      eachLevel((method) => logger[method](`conformance ${method} frozen metadata`, metadata));
+      assert(JSON.stringify(metadata) === before, "metadata was changed by the logger");
+    },
+  },
+  {
+    name: "logRequest accepts optional size and edge values",
+    run(logger) {
+      logger.logRequest("GET", "/conformance", 200, 12.5);
+      logger.logRequest("POST", "/conformance/upload", 201, 0, 1024);
+      logger.logRequest("DELETE", "/conformance/" + "x".repeat(200), 404, 1.25, 0);
+      logger.logRequest("PATCH", "/conformance", 503, 30_000.75, 5 * 1024 * 1024);
+    },
+  },
+  {
+    name: "logSection accepts every style",
+    run(logger) {
+      logger.logSection("Conformance");
+      for (const style of ["standard", "heavy", "double", "simple"] as const) {
+        logger.logSection(`Conformance ${style}`, "cyan", style);
+      }
+    },
+  },
+  {
+    name: "records level methods with level, message and metadata",
+    run(logger, { recorded }) {
+      if (!recorded) return;
+
+      eachLevel((method) => {
+        const message = `conformance recorded ${method}`;
+        logger[method](message, { method });
+
+        const entries = recorded(logger).filter((entry) => entry.message === message);
+        assert(entries.length === 1, `${method}: expected 1 entry, found ${entries.length}`);
+        assert(
+          entries[0].level === LEVEL_METHODS[method],
+          `${method}: expected level "${LEVEL_METHODS[method]}", got "${entries[0].level}"`,
+        );
+        assert(entries[0].metadata?.method === method, `${method}: metadata was not recorded`);
+      });
+    },
+  },
+  {
+    name: "records requests",
+    run(logger, { recorded }) {
+      if (!recorded) return;
+
+      logger.logRequest("GET", "/conformance/recorded", 200, 5);
+      assert(
+        recorded(logger).some((entry) => entry.message.includes("/conformance/recorded")),
+        "logRequest was not recorded",
+      );
+    },
+  },
+];
+
+// ================================================================================
+// Runners
+// ================================================================================
+
+/**
+ * Register the suite as one Deno test with a step per check; create is called per check
+ */
+export function testILoggerConformance(
+  name: string,
+  create: () => ILogger,
+  options: ConformanceOptions = {},
+): void {
+  Deno.test(`ILogger conformance: ${name}`, async (t) => {
+    for (const check of ILOGGER_CONFORMANCE) {
+      await t.step(check.name, () => check.run(create(), options));
+    }
+  });
+}
+
+/**
+ * Run every check; resolves to the failures, empty when the implementation conforms
+ */
+export async function runILoggerConformance(
+  create: () => ILogger,
+  options: ConformanceOptions = {},
+): Promise<ConformanceFailure[]> {
+  const failures: ConformanceFailure[] = [];
+  for (const check of ILOGGER_CONFORMANCE) {
+    try {
+      await check.run(create(), options);
+    } catch (error) {
+      failures.push({ check: check.name, error });
+    }
+  }
+  return failures;
+}
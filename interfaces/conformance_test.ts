@@ -0,0 +1,29 @@
+import { ConsoleStylerLogger } from "../adapters/ConsoleStylerLogger.ts";
+import { LoggerAdapter } from "../adapters/LoggerAdapter.ts";
+import { TestLogger } from "../adapters/TestLogger.ts";
+import { ConsoleStyler } from "../core/console.ts";
+import { defaultConfig } from "../core/config.ts";
+import { Logger } from "../core/logger.ts";
+import { testILoggerConformance } from "./conformance.ts";
+
+testILoggerConformance(
+  "LoggerAdapter",
+  () => new LoggerAdapter(new Logger({ ...defaultConfig, plugins: [], outputs: [] })),
+);
+
+testILoggerConformance("TestLogger", () => new TestLogger(), {
+  recorded: (logger) => (logger as TestLogger).entries,
+});
+
+// ConsoleStyler emits through its backing logger; a TestLogger records what it receives
+let backing: TestLogger;
+
+testILoggerConformance(
+  "ConsoleStylerLogger",
+  () => {
+    backing = new TestLogger();
+    ConsoleStyler.useLogger(backing.logger);
+    return new ConsoleStylerLogger();
+  },
+  { recorded: () => backing.entries },
+);
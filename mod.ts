@@ -6,14 +6,95 @@
 
 // Core exports
 export { Logger } from "./core/logger.ts";
+export type { ChildLoggerOptions, EntryFields, LogMessage, LogMetadata } from "./core/logger.ts";
 export { ConfigBuilder } from "./core/config.ts";
+export {
+  configFromEnv,
+  configFromFile,
+  ConfigValidationError,
+  stripJsonComments,
+  validateConfig,
+} from "./core/config-loader.ts";
+export type { ValidateOptions } from "./core/config-loader.ts";
+export { ConfigWatcher } from "./core/config-watcher.ts";
+export type { ConfigChange, ConfigWatchOptions } from "./core/config-watcher.ts";
+export { AdminServer } from "./core/admin.ts";
+export type { AdminServerOptions, LoggerNode } from "./core/admin.ts";
 export { colors, ColorSystem, hexToRgb } from "./core/colors.ts";
 export { Formatter } from "./core/formatter.ts";
+export { LevelRegistry, levels, registerLevel } from "./core/levels.ts";
+export { namespaceColor, NamespaceFilter, namespacePattern } from "./core/namespaces.ts";
+export { getEntryStyle, registerEntryStyle } from "./core/entry-styles.ts";
+export { formatNames, getFormat, hasFormat, registerFormat } from "./core/formats.ts";
+export { compileLineTemplate, DEFAULT_LINE_TEMPLATE, LineTemplate } from "./core/line-template.ts";
+export { LogHistory } from "./core/history.ts";
+export {
+  compileQuery,
+  filterLogs,
+  parseLogFile,
+  parseQuery,
+  QuerySyntaxError,
+  readLogFile,
+} from "./core/query.ts";
+export { parseStack, serializeError } from "./core/errors.ts";
+export {
+  configureSerializer,
+  NO_LIMITS,
+  safeStringify,
+  toSerializable,
+} from "./core/serializer.ts";
+export { BUILTIN_DETECTORS, Redactor } from "./core/redaction.ts";
+export { currentTraceContext } from "./core/spans.ts";
+export {
+  continueTrace,
+  formatTraceparent,
+  newSpanId,
+  newTraceId,
+  parseTraceparent,
+  TRACEPARENT_HEADER,
+} from "./core/trace.ts";
+export { OtlpLogExporter, otlpRemoteConfig, otlpSeverity, toOtlpLogs } from "./core/otlp.ts";
+export type { SpanInfo, SpanStats, SpanSummaryOptions, Timer } from "./core/spans.ts";
+export type { TraceContext } from "./core/trace.ts";
+export type {
+  OtlpAnyValue,
+  OtlpExporterOptions,
+  OtlpKeyValue,
+  OtlpLogRecord,
+  OtlpLogsPayload,
+} from "./core/otlp.ts";
 export { ConsoleStyler } from "./core/console.ts";
 
 // Types
-export type { LogEntry, LogLevel, LogOutput, Plugin, StylerConfig, Theme } from "./core/config.ts";
+export type {
+  LogEntry,
+  LogLevel,
+  LogOutput,
+  Plugin,
+  PluginMethod,
+  PluginMethods,
+  StylerConfig,
+  Theme,
+} from "./core/config.ts";
 export type { ILogger } from "./interfaces/ILogger.ts";
+export type { PluginStatus } from "./core/plugin-pipeline.ts";
+export type { LogContext } from "./core/context.ts";
+export type { BuiltinLogLevel, LevelDefinition, LevelThemeSlot } from "./core/levels.ts";
+export type { FloodControlOptions, FloodStats, FloodSummary } from "./core/flood-control.ts";
+export type { SerializedError, StackFrame } from "./core/errors.ts";
+export type { EntryStyle, EntryStyleContext } from "./core/entry-styles.ts";
+export type { LineFormat } from "./core/formats.ts";
+export type { TimestampOptions } from "./core/formatter.ts";
+export type { LineTemplateContext } from "./core/line-template.ts";
+export type { HistoryPage, HistoryQuery } from "./core/history.ts";
+export type { LogPredicate, QueryNode, QueryOperator, QueryValue } from "./core/query.ts";
+export type { SerializeOptions } from "./core/serializer.ts";
+export type {
+  BuiltinDetector,
+  RedactionMode,
+  RedactionOptions,
+  SecretDetector,
+} from "./core/redaction.ts";
 
 // Components
 export { TableRenderer } from "./components/tables.ts";
@@ -84,6 +165,9 @@ export type { RemoteLoggerOptions } from "./plugins/remote-logger.ts";
 export { SlackLoggerPlugin } from "./plugins/slack-logger.ts";
 export type { SlackLoggerOptions } from "./plugins/slack-logger.ts";
 
+export { createPlugin, hasPlugin, pluginNames, registerPlugin } from "./plugins/registry.ts";
+export type { PluginFactory } from "./plugins/registry.ts";
+
 // Psychological Guardrails
 export { CognitiveGuardrailsPlugin } from "./plugins/cognitive-guardrails.ts";
 export type {
@@ -111,7 +195,26 @@ export type {
 // export { expressLogger } from "./adapters/express.ts";
 // export type { ExpressLoggerOptions } from "./adapters/express.ts";
 
-export { ConsoleStylerLogger, defaultLogger } from "./adapters/mod.ts";
+export {
+  ConsoleStylerLogger,
+  defaultLogger,
+  LogAssertionError,
+  LoggerAdapter,
+  TestLogger,
+} from "./adapters/mod.ts";
+export type { LogExpectation } from "./adapters/mod.ts";
+
+// ILogger conformance suite
+export {
+  ILOGGER_CONFORMANCE,
+  runILoggerConformance,
+  testILoggerConformance,
+} from "./interfaces/conformance.ts";
+export type {
+  ConformanceCheck,
+  ConformanceFailure,
+  ConformanceOptions,
+} from "./interfaces/conformance.ts";
 
 // Utilities
 export { TerminalDetector } from "./utils/terminal.ts";
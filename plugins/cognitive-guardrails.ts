@@ -16,6 +16,7 @@
 import { LogEntry, Plugin, StylerConfig } from "../core/config.ts";
 import { ColorSystem } from "../core/colors.ts";
 import { BoxRenderer } from "../components/boxes.ts";
+import { safeStringify } from "../core/serializer.ts";
 
 export interface CognitiveGuardrailsOptions {
   // Session management
@@ -223,7 +224,7 @@ export class CognitiveGuardrailsPlugin implements Plugin {
 
     // Metadata complexity (0-30 points)
     if (entry.metadata) {
-      const metadataSize = JSON.stringify(entry.metadata).length;
+      const metadataSize = safeStringify(entry.metadata).length;
       score += Math.min(30, (metadataSize / 500) * 30);
     }
 
@@ -1,11 +1,11 @@
 // plugins/file-logger.ts
 import { Plugin } from "./plugin-interface.ts";
 import { LogEntry } from "../core/config.ts";
-import { Formatter } from "../core/formatter.ts";
+import { getFormat, LineFormat } from "../core/formats.ts";
 
 export interface FileLoggerOptions {
   filepath: string;
-  format?: "text" | "json";
+  format?: string; // Registered line format (text, json, logfmt, ecs, gelf, cef), defaults to text
   maxSize?: number; // Max file size in bytes before rotation
   maxFiles?: number; // Max number of rotated files to keep
 }
@@ -16,9 +16,11 @@ export class FileLoggerPlugin implements Plugin {
 
   private currentSize = 0;
   private fileIndex = 0;
+  private lineFormat: LineFormat;
 
   constructor(private options: FileLoggerOptions) {
     this.options.format = options.format || "text";
+    this.lineFormat = getFormat(this.options.format);
     this.options.maxSize = options.maxSize || 10 * 1024 * 1024; // 10MB default
     this.options.maxFiles = options.maxFiles || 5;
   }
@@ -47,20 +49,7 @@ export class FileLoggerPlugin implements Plugin {
   }
 
   async onLog(entry: LogEntry): Promise<void> {
-    let content: string;
-
-    if (this.options.format === "json") {
-      content = JSON.stringify(entry) + "\n";
-    } else {
-      const timestamp = Formatter.timestamp(
-        entry.timestamp,
-        "YYYY-MM-DD HH:mm:ss",
-      );
-      const level = entry.level.toUpperCase().padEnd(8);
-      const message = entry.message;
-      const metadata = entry.metadata ? ` ${JSON.stringify(entry.metadata)}` : "";
-      content = `[${timestamp}] ${level} ${message}${metadata}\n`;
-    }
+    const content = this.lineFormat.format(entry) + "\n";
 
     // Check if rotation needed
     if (this.currentSize + content.length > this.options.maxSize!) {
@@ -1,6 +1,7 @@
 // plugins/json-logger.ts
 import { Plugin } from "./plugin-interface.ts";
 import { LogEntry } from "../core/config.ts";
+import { NO_LIMITS, safeStringify, toSerializable } from "../core/serializer.ts";
 
 export interface JsonLoggerOptions {
   filepath: string;
@@ -58,10 +59,10 @@ export class JsonLoggerPlugin implements Plugin {
     const data = {
       version: "1.0.0",
       exportTime: new Date().toISOString(),
-      logs: this.logs,
+      logs: this.logs.map((entry) => toSerializable(entry)),
     };
 
-    const content = this.options.pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data);
+    const content = safeStringify(data, this.options.pretty ? 2 : undefined, NO_LIMITS);
 
     await Deno.writeTextFile(this.options.filepath, content);
   }
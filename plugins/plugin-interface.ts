@@ -1,15 +1,2 @@
 // plugins/plugin-interface.ts
-import { LogEntry, StylerConfig } from "../core/config.ts";
-
-export interface Plugin {
-  name: string;
-  version: string;
-
-  // Lifecycle hooks
-  onInit?(config: StylerConfig): void | Promise<void>;
-  onLog?(entry: LogEntry): void | Promise<void>;
-  onShutdown?(): void | Promise<void>;
-
-  // Extend functionality
-  extendMethods?(): Record<string, Function>;
-}
+export type { Plugin, PluginMethod, PluginMethods } from "../core/config.ts";
@@ -0,0 +1,73 @@
+// plugins/registry.ts
+// ================================================================================
+// 🧩 Plugin Registry - Plugins referenced by name from config files and env vars
+// ================================================================================
+
+import { Plugin } from "./plugin-interface.ts";
+import { FileLoggerOptions, FileLoggerPlugin } from "./file-logger.ts";
+import { JsonLoggerOptions, JsonLoggerPlugin } from "./json-logger.ts";
+import { RemoteLoggerOptions, RemoteLoggerPlugin } from "./remote-logger.ts";
+import { SlackLoggerOptions, SlackLoggerPlugin } from "./slack-logger.ts";
+import { CognitiveGuardrailsOptions, CognitiveGuardrailsPlugin } from "./cognitive-guardrails.ts";
+
+/**
+ * Creates a plugin from the JSON options given in configuration; throw to reject bad options
+ */
+export type PluginFactory = (options: Record<string, unknown>) => Plugin;
+
+const factories = new Map<string, PluginFactory>([
+  ["file-logger", (options) => {
+    requireString(options, "filepath");
+    return new FileLoggerPlugin(options as unknown as FileLoggerOptions);
+  }],
+  ["json-logger", (options) => {
+    requireString(options, "filepath");
+    return new JsonLoggerPlugin(options as unknown as JsonLoggerOptions);
+  }],
+  ["remote-logger", (options) => {
+    requireString(options, "url");
+    return new RemoteLoggerPlugin(options as unknown as RemoteLoggerOptions);
+  }],
+  ["slack-logger", (options) => {
+    requireString(options, "webhookUrl");
+    return new SlackLoggerPlugin(options as unknown as SlackLoggerOptions);
+  }],
+  [
+    "cognitive-guardrails",
+    (options) => new CognitiveGuardrailsPlugin(options as CognitiveGuardrailsOptions),
+  ],
+]);
+
+/**
+ * Register a plugin so configuration can reference it by name; replaces any existing entry
+ */
+export function registerPlugin(name: string, factory: PluginFactory): void {
+  factories.set(name, factory);
+}
+
+/**
+ * Create a registered plugin; throws for unknown names or rejected options
+ */
+export function createPlugin(name: string, options: Record<string, unknown> = {}): Plugin {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(
+      `"${name}" is not a registered plugin (registered: ${pluginNames().join(", ")})`,
+    );
+  }
+  return factory(options);
+}
+
+export function hasPlugin(name: string): boolean {
+  return factories.has(name);
+}
+
+export function pluginNames(): string[] {
+  return [...factories.keys()];
+}
+
+function requireString(options: Record<string, unknown>, key: string): void {
+  if (typeof options[key] !== "string" || options[key] === "") {
+    throw new Error(`options.${key} is required`);
+  }
+}
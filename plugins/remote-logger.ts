@@ -1,6 +1,9 @@
 // plugins/remote-logger.ts
 import { Plugin } from "./plugin-interface.ts";
 import { LogEntry, LogLevel } from "../core/config.ts";
+import { levels } from "../core/levels.ts";
+import { getFormat, LineFormat } from "../core/formats.ts";
+import { NO_LIMITS, safeStringify, toSerializable } from "../core/serializer.ts";
 
 export interface RemoteLoggerOptions {
   url: string;
@@ -8,6 +11,7 @@ export interface RemoteLoggerOptions {
   minLevel?: LogLevel;
   batchSize?: number;
   flushInterval?: number;
+  format?: string; // Send one line per entry in a registered format instead of { logs: [...] }
 }
 
 export class RemoteLoggerPlugin implements Plugin {
@@ -15,9 +19,11 @@ export class RemoteLoggerPlugin implements Plugin {
   version = "1.0.0";
 
   private buffer: LogEntry[] = [];
-  private flushTimer?: number;
+  private flushTimer?: ReturnType<typeof setInterval>;
+  private lineFormat?: LineFormat;
 
   constructor(private options: RemoteLoggerOptions) {
+    this.lineFormat = options.format ? getFormat(options.format) : undefined;
     this.options.minLevel = options.minLevel || "info";
     this.options.batchSize = options.batchSize || 10;
     this.options.flushInterval = options.flushInterval || 5000; // 5 seconds
@@ -50,10 +56,7 @@ export class RemoteLoggerPlugin implements Plugin {
   }
 
   private shouldLog(level: LogLevel): boolean {
-    const levels: LogLevel[] = ["debug", "info", "success", "warning", "error", "critical"];
-    const minIndex = levels.indexOf(this.options.minLevel!);
-    const levelIndex = levels.indexOf(level);
-    return levelIndex >= minIndex;
+    return levels.isEnabled(level, this.options.minLevel!);
   }
 
   private async flush(): Promise<void> {
@@ -64,7 +67,7 @@ export class RemoteLoggerPlugin implements Plugin {
 
     try {
       const headers: Record<string, string> = {
-        "Content-Type": "application/json",
+        "Content-Type": this.lineFormat?.contentType ?? "application/json",
       };
 
       if (this.options.apiKey) {
@@ -74,12 +77,11 @@ export class RemoteLoggerPlugin implements Plugin {
       await fetch(this.options.url, {
         method: "POST",
         headers,
-        body: JSON.stringify({
-          logs: logs.map((entry) => ({
-            ...entry,
-            timestamp: entry.timestamp.toISOString(),
-          })),
-        }),
+        body: this.lineFormat ? logs.map(this.lineFormat.format).join("\n") : safeStringify(
+          { logs: logs.map((entry) => toSerializable(entry)) },
+          undefined,
+          NO_LIMITS,
+        ),
       });
     } catch (error) {
       // Failed to send logs, put them back in buffer
@@ -1,6 +1,8 @@
 // plugins/slack-logger.ts
 import { Plugin } from "./plugin-interface.ts";
 import { LogEntry, LogLevel } from "../core/config.ts";
+import { levels, LevelThemeSlot } from "../core/levels.ts";
+import { safeStringify } from "../core/serializer.ts";
 
 export interface SlackLoggerOptions {
   webhookUrl: string;
@@ -10,6 +12,9 @@ export interface SlackLoggerOptions {
   iconEmoji?: string;
 }
 
+// Slack truncates longer attachment field values
+const SLACK_FIELD_LIMIT = 2000;
+
 export class SlackLoggerPlugin implements Plugin {
   name = "slack-logger";
   version = "1.0.0";
@@ -34,13 +39,23 @@ export class SlackLoggerPlugin implements Plugin {
         color,
         title: `${emoji} ${entry.level.toUpperCase()}`,
         text: entry.message,
-        fields: entry.metadata
-          ? Object.entries(entry.metadata).map(([key, value]) => ({
+        fields: [
+          ...Object.entries(entry.metadata ?? {}).map(([key, value]) => ({
             title: key,
-            value: String(value),
+            value: this.fieldValue(value),
             short: true,
-          }))
-          : [],
+          })),
+          ...(entry.error
+            ? [{
+              title: "Error",
+              // The stack starts with "Name: message"; the code block stays closed when cut
+              value: entry.error.stack
+                ? `\`\`\`${this.fieldValue(entry.error.stack, SLACK_FIELD_LIMIT - 6)}\`\`\``
+                : this.fieldValue(`${entry.error.name}: ${entry.error.message}`),
+              short: false,
+            }]
+            : []),
+        ],
         footer: entry.namespace || "Application",
         ts: Math.floor(entry.timestamp.getTime() / 1000),
       }],
@@ -60,22 +75,20 @@ export class SlackLoggerPlugin implements Plugin {
     }
   }
 
+  /**
+   * Primitives as text and objects as JSON, cut to Slack's field limit
+   */
+  private fieldValue(value: unknown, limit = SLACK_FIELD_LIMIT): string {
+    const text = typeof value === "object" && value !== null ? safeStringify(value) : String(value);
+    return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+  }
+
   private shouldLog(level: LogLevel): boolean {
-    const levels: LogLevel[] = [
-      "debug",
-      "info",
-      "success",
-      "warning",
-      "error",
-      "critical",
-    ];
-    const minIndex = levels.indexOf(this.options.minLevel!);
-    const levelIndex = levels.indexOf(level);
-    return levelIndex >= minIndex;
+    return levels.isEnabled(level, this.options.minLevel!);
   }
 
   private getColor(level: LogLevel): string {
-    const colors: Record<LogLevel, string> = {
+    const colors: Record<LevelThemeSlot, string> = {
       debug: "#6272a4",
       info: "#3b82f6",
       success: "#22c55e",
@@ -83,11 +96,11 @@ export class SlackLoggerPlugin implements Plugin {
       error: "#ef4444",
       critical: "#dc2626",
     };
-    return colors[level];
+    return colors[levels.slot(level)];
   }
 
   private getEmoji(level: LogLevel): string {
-    const emojis: Record<LogLevel, string> = {
+    const emojis: Record<LevelThemeSlot, string> = {
       debug: "🔍",
       info: "ℹ️",
       success: "✅",
@@ -95,6 +108,6 @@ export class SlackLoggerPlugin implements Plugin {
       error: "❌",
       critical: "🚨",
     };
-    return emojis[level];
+    return levels.get(level)?.symbol ?? emojis[levels.slot(level)];
   }
 }